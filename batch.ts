@@ -0,0 +1,214 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { ExtractedElement } from './elements';
+import { DocumentFeedback, createDocumentFeedback } from './feedback';
+import { EditHistory, createEditHistory } from './history';
+import { UserSchema } from './schemas';
+
+// --- Batch Documents & Processing Queue ---
+
+export type DocumentStatus =
+  | 'idle'
+  | 'queued'
+  | 'running'
+  | 'retrying'
+  | 'done'
+  | 'failed';
+
+/**
+ * Everything we keep per uploaded document, so that switching between
+ * documents can restore its preview and results.
+ */
+export interface BatchDocument {
+  id: string;
+  file: File;
+  status: DocumentStatus;
+  attempts: number;
+  error: string | null;
+  pageDimensions: { width: number; height: number }[];
+  extractedData: ExtractedElement[];
+  // Undoable edits made to extractedData since the last extraction
+  history: EditHistory;
+  // Reviewer ratings of the current results
+  feedback: DocumentFeedback;
+  // Document-level validation warnings from the last extraction
+  warnings: string[];
+  // The user-defined schema the results were extracted with, if any
+  resultSchema: UserSchema | null;
+  // Chunk progress while a long PDF is extracted in page ranges
+  progress: { completed: number; total: number } | null;
+}
+
+export const SUPPORTED_FILE_TYPES = [
+  'application/pdf',
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+];
+
+let nextDocumentId = 1;
+
+export function createBatchDocument(file: File): BatchDocument {
+  return {
+    // Unique across page loads, since documents are persisted by id.
+    id: `doc-${Date.now().toString(36)}-${nextDocumentId++}`,
+    file,
+    status: 'idle',
+    attempts: 0,
+    error: null,
+    pageDimensions: [],
+    extractedData: [],
+    history: createEditHistory(),
+    feedback: createDocumentFeedback(),
+    warnings: [],
+    resultSchema: null,
+    progress: null,
+  };
+}
+
+export function isInProgress(status: DocumentStatus) {
+  return status === 'queued' || status === 'running' || status === 'retrying';
+}
+
+interface ExtractionQueueOptions {
+  concurrency: number;
+  // How many times a failed document is retried before it is marked failed.
+  maxRetries: number;
+  worker: (doc: BatchDocument) => Promise<void>;
+  onUpdate: (doc: BatchDocument) => void;
+}
+
+/**
+ * Creates a FIFO queue that runs `worker` for up to `concurrency` documents
+ * at a time, retrying failures with exponential backoff.
+ */
+export function createExtractionQueue(options: ExtractionQueueOptions) {
+  let pending: BatchDocument[] = [];
+  let running = 0;
+
+  const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  const setStatus = (doc: BatchDocument, status: DocumentStatus) => {
+    doc.status = status;
+    options.onUpdate(doc);
+  };
+
+  const process = async (doc: BatchDocument) => {
+    while (true) {
+      doc.attempts++;
+      setStatus(doc, 'running');
+      try {
+        await options.worker(doc);
+        doc.error = null;
+        setStatus(doc, 'done');
+        return;
+      } catch (error) {
+        console.error(`Error extracting ${doc.file.name}:`, error);
+        doc.error = error instanceof Error ? error.message : String(error);
+        if (doc.attempts > options.maxRetries) {
+          setStatus(doc, 'failed');
+          return;
+        }
+        setStatus(doc, 'retrying');
+        await wait(1000 * 2 ** (doc.attempts - 1));
+      }
+    }
+  };
+
+  const pump = () => {
+    while (running < options.concurrency && pending.length > 0) {
+      const doc = pending.shift();
+      running++;
+      process(doc).finally(() => {
+        running--;
+        pump();
+      });
+    }
+  };
+
+  return {
+    enqueue(docs: BatchDocument[]) {
+      docs.forEach((doc) => {
+        if (isInProgress(doc.status)) return;
+        doc.attempts = 0;
+        doc.error = null;
+        pending.push(doc);
+        setStatus(doc, 'queued');
+      });
+      pump();
+    },
+    // Drops documents that have not started yet; running ones finish.
+    clear() {
+      pending.forEach((doc) => setStatus(doc, 'idle'));
+      pending = [];
+    },
+    setConcurrency(concurrency: number) {
+      options.concurrency = Math.max(1, concurrency);
+      pump();
+    },
+  };
+}
+
+// --- File Helpers ---
+
+export function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const base64Data = String(reader.result || '').split(',')[1];
+      if (base64Data) {
+        resolve(base64Data);
+      } else {
+        reject(new Error('Could not parse base64 data from file.'));
+      }
+    };
+    reader.onerror = () => reject(new Error('FileReader error.'));
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * Collects every file from a drop event, walking dropped folders recursively.
+ */
+export async function collectDroppedFiles(
+  dataTransfer: DataTransfer,
+): Promise<File[]> {
+  // Entries must be read synchronously, before the drop event ends.
+  const entries = Array.from(dataTransfer.items || [])
+    .map((item) => item.webkitGetAsEntry?.())
+    .filter(Boolean);
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files);
+  }
+
+  const files: File[] = [];
+  const walk = async (entry: FileSystemEntry) => {
+    if (entry.isFile) {
+      files.push(
+        await new Promise<File>((resolve, reject) =>
+          (entry as FileSystemFileEntry).file(resolve, reject),
+        ),
+      );
+    } else if (entry.isDirectory) {
+      const reader = (entry as FileSystemDirectoryEntry).createReader();
+      // readEntries returns results in chunks until it returns an empty list.
+      let chunk: FileSystemEntry[];
+      do {
+        chunk = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+          reader.readEntries(resolve, reject),
+        );
+        for (const child of chunk) {
+          await walk(child);
+        }
+      } while (chunk.length > 0);
+    }
+  };
+
+  for (const entry of entries) {
+    await walk(entry);
+  }
+  return files;
+}
@@ -0,0 +1,400 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { readFile } from 'node:fs/promises';
+import { JSDOM, VirtualConsole } from 'jsdom';
+import { GEMINI_MODELS } from './providers';
+
+// --- Hostile Results Check ---
+// Loads fixtures/hostile-results.json into the app, running in jsdom, and
+// walks it through every panel that shows model text, checking that none of
+// its markup payloads became elements or attributes anywhere in the page.
+// See "Untrusted text" in the README.
+
+const FIXTURE = 'fixtures/hostile-results.json';
+const DOCUMENT_NAME = 'hostile.pdf';
+// A second document, so that the batch list shows, named like a payload.
+const HOSTILE_DOCUMENT_NAME = `<img src=x onerror=alert('file name')>.pdf`;
+const SCHEMA_NAME = 'Hostile';
+
+// How long to wait for the app to show results, in milliseconds.
+const TIMEOUT = 10000;
+// The most steps the review queue is followed for.
+const MAX_REVIEW_STEPS = 50;
+
+// A one-page document: pdf.js is loaded from a CDN by index.html, so it is
+// replaced with a stand-in that opens every file as a blank letter page.
+const PAGE = { width: 612, height: 792 };
+const pdfjsStub = {
+  GlobalWorkerOptions: {},
+  getDocument: () => ({
+    promise: Promise.resolve({
+      numPages: 1,
+      getPage: async () => ({
+        getViewport: ({ scale }: { scale: number }) => ({
+          width: PAGE.width * scale,
+          height: PAGE.height * scale,
+        }),
+        render: () => ({ promise: Promise.resolve() }),
+      }),
+      destroy() {},
+    }),
+  }),
+};
+
+// Browser APIs the app uses that jsdom lacks.
+class ObserverStub {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+}
+
+// An empty database that keeps nothing, so no earlier session is restored.
+const indexedDBStub = {
+  open() {
+    const store = {
+      get: () => ({ result: undefined }),
+      getAll: () => ({ result: [] }),
+      put: () => ({ result: undefined }),
+      delete: () => ({ result: undefined }),
+      clear: () => ({ result: undefined }),
+    };
+    const db = {
+      transaction() {
+        const transaction: any = { objectStore: () => store };
+        setTimeout(() => transaction.oncomplete());
+        return transaction;
+      },
+    };
+    const request: any = { result: db };
+    setTimeout(() => request.onsuccess());
+    return request;
+  },
+};
+
+// Draws nothing: jsdom has no canvas of its own.
+const canvasContextStub = new Proxy({}, { get: () => () => {} });
+
+// Every string in (part of) the fixture.
+function collectPayloads(value: unknown, strings: string[] = []) {
+  if (typeof value === 'string') {
+    strings.push(value);
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach((item) => collectPayloads(item, strings));
+  }
+  return strings;
+}
+
+// An element's tag and attributes, e.g. `img[onerror="alert(1)"][src="x"]`.
+function describeElement(element: Element) {
+  const attributes = [...element.attributes]
+    .map(
+      (attribute) => `[${attribute.name}=${JSON.stringify(attribute.value)}]`,
+    )
+    .sort();
+  return element.localName + attributes.join('');
+}
+
+/**
+ * A keyed result for a schema with one field per hostile element, so that
+ * the schema view renders the same payloads.
+ */
+function buildSchemaResults(elements: any[]) {
+  const fields = elements.map((_, index) => ({
+    name: `field_${index + 1}`,
+    type: 'string',
+    description: '',
+    required: false,
+  }));
+  const result: Record<string, any> = {};
+  elements.forEach((element, index) => {
+    result[fields[index].name] = {
+      value: element.value ?? element.label,
+      page: 1,
+      bounding_box: element.bounding_box,
+    };
+  });
+  return {
+    schema: { id: 'schema-hostile', name: SCHEMA_NAME, fields },
+    results: {
+      documents: [{ file_name: DOCUMENT_NAME, schema: SCHEMA_NAME, result }],
+    },
+  };
+}
+
+/**
+ * Stands in for the extraction server: `/status` answers as it does, so the
+ * app extracts with Gemini, and every model request is answered with the
+ * fixture's elements.
+ */
+function createServerStub(elements: unknown[]) {
+  const json = (body: unknown) =>
+    Promise.resolve(new Response(JSON.stringify(body)));
+  return (url: string) => {
+    if (url === '/status') {
+      return json({ backend: 'gemini', models: GEMINI_MODELS });
+    }
+    if (url === '/extract') {
+      return json({ text: JSON.stringify({ extracted_elements: elements }) });
+    }
+    return Promise.reject(new Error(`Nothing is served at ${url}.`));
+  };
+}
+
+async function main() {
+  const fixture = JSON.parse(await readFile(FIXTURE, 'utf8'));
+  const payloads = collectPayloads(fixture.extracted_elements).filter((text) =>
+    /[<>]/.test(text),
+  );
+  const labels: string[] = fixture.extracted_elements
+    .map((element: any) => element.label)
+    .filter((label: unknown) => typeof label === 'string');
+
+  // index.html without its scripts: the app itself is imported below.
+  const html = (await readFile('index.html', 'utf8')).replace(
+    /<script[\s\S]*?<\/script>/g,
+    '',
+  );
+  // jsdom's notices about what it does not implement, such as drawing on
+  // canvases, are left out.
+  const virtualConsole = new VirtualConsole();
+  virtualConsole.on('error', (error) => console.error(error));
+  const dom = new JSDOM(html, {
+    url: 'http://localhost/',
+    pretendToBeVisual: true,
+    virtualConsole,
+  });
+  const { window } = dom;
+
+  // Markup payloads parsed as HTML: any of these elements in the page means
+  // a payload was injected.
+  const template = window.document.createElement('template');
+  const injected = new Set<string>();
+  [...payloads, HOSTILE_DOCUMENT_NAME].forEach((text) => {
+    template.innerHTML = text;
+    template.content
+      .querySelectorAll('*')
+      .forEach((element) => injected.add(describeElement(element)));
+  });
+
+  const { schema, results } = buildSchemaResults(fixture.extracted_elements);
+  window.localStorage.setItem('ade.userSchemas', JSON.stringify([schema]));
+
+  // The app runs against the jsdom window as if it were the browser's.
+  const globals: Record<string, unknown> = {
+    window,
+    document: window.document,
+    navigator: window.navigator,
+    Event: window.Event,
+    MouseEvent: window.MouseEvent,
+    File: window.File,
+    Blob: window.Blob,
+    pdfjsLib: pdfjsStub,
+    IntersectionObserver: ObserverStub,
+    ResizeObserver: ObserverStub,
+    indexedDB: indexedDBStub,
+    fetch: createServerStub(fixture.extracted_elements),
+  };
+  Object.getOwnPropertyNames(window).forEach((name) => {
+    if (!(name in globalThis) && !(name in globals)) {
+      globals[name] = window[name];
+    }
+  });
+  Object.entries(globals).forEach(([name, value]) =>
+    Object.defineProperty(globalThis, name, {
+      configurable: true,
+      writable: true,
+      value,
+    }),
+  );
+  window.HTMLElement.prototype.scrollIntoView = () => {};
+  window.Blob.prototype.text = function () {
+    return new Promise((resolve) => {
+      const reader = new window.FileReader();
+      reader.onload = () => resolve(reader.result);
+      reader.readAsText(this);
+    });
+  };
+  window.HTMLCanvasElement.prototype.getContext = () => canvasContextStub;
+  window.HTMLCanvasElement.prototype.toDataURL = () =>
+    'data:image/jpeg;base64,';
+  // jsdom lays nothing out: pages are given their size at zoom 1, so that
+  // regions can be drawn on them.
+  const getBoundingClientRect = window.Element.prototype.getBoundingClientRect;
+  window.Element.prototype.getBoundingClientRect = function () {
+    return this.matches('[data-page-number]')
+      ? new window.DOMRect(0, 0, PAGE.width, PAGE.height)
+      : getBoundingClientRect.call(this);
+  };
+
+  await import('./index');
+
+  const { document } = window;
+  const byId = <T extends HTMLElement = HTMLElement>(id: string) =>
+    document.getElementById(id) as T;
+  const fileUpload = byId<HTMLInputElement>('file-upload');
+  const markdownResults = byId('markdown-results');
+  const reviewQueuePanel = byId('review-queue-panel');
+
+  // Chooses files as if picked with the upload button.
+  const chooseFiles = (files: File[]) => {
+    Object.defineProperty(fileUpload, 'files', {
+      configurable: true,
+      value: files,
+    });
+    fileUpload.dispatchEvent(new window.Event('change'));
+  };
+  const waitFor = async (description: string, condition: () => boolean) => {
+    const deadline = Date.now() + TIMEOUT;
+    while (!condition()) {
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for ${description}.`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+  };
+  const cards = () => markdownResults.querySelectorAll('[data-element-index]');
+  const resultsFile = (name: string, json: unknown) =>
+    new window.File([JSON.stringify(json)], name, { type: 'application/json' });
+  const click = (element: Element) =>
+    element.dispatchEvent(new window.MouseEvent('click', { bubbles: true }));
+  const findButton = (panel: Element, text: string) =>
+    [...panel.querySelectorAll('button')].find(
+      (button) => button.textContent.trim() === text,
+    );
+  const mouse = (type: string, x: number, y: number) =>
+    new window.MouseEvent(type, { bubbles: true, clientX: x, clientY: y });
+
+  const problems: string[] = [];
+  // The whole page, so that every panel showing model text is covered: the
+  // results, validation warnings, review queue, history, batch list, region
+  // panel and status messages.
+  const checkPanels = (step: string) =>
+    document.body.querySelectorAll('*').forEach((element) => {
+      const description = describeElement(element);
+      const panel = element.closest('[id]')?.id;
+      const where = panel ? ` in #${panel}` : '';
+      if (injected.has(description)) {
+        problems.push(`${step}: ${description} was injected${where}.`);
+      } else if ([...element.attributes].some((a) => /^on/i.test(a.name))) {
+        problems.push(`${step}: ${description}${where} has an event handler.`);
+      }
+    });
+  // Fails the step unless the panel shows the text, as text.
+  const expectText = (step: string, panelId: string, text: string) => {
+    if (!byId(panelId).textContent.includes(text)) {
+      problems.push(
+        `${step}: #${panelId} does not show ${JSON.stringify(text)}.`,
+      );
+    }
+  };
+
+  // The app switches to Gemini once the extraction server answers.
+  await waitFor(
+    'the extraction server',
+    () => byId<HTMLSelectElement>('provider-select').value === 'gemini',
+  );
+  chooseFiles(
+    [DOCUMENT_NAME, HOSTILE_DOCUMENT_NAME].map(
+      (name) =>
+        new window.File(['%PDF-1.4'], name, { type: 'application/pdf' }),
+    ),
+  );
+  await waitFor('the document', () =>
+    Boolean(document.querySelector('.preview-page')),
+  );
+  checkPanels('Batch list');
+  expectText('Batch list', 'batch-list', HOSTILE_DOCUMENT_NAME);
+
+  // The Markdown cards, the validation panel and the element JSON. Every
+  // payload must show as text, in the cards or (escaped) in the JSON.
+  chooseFiles([resultsFile('hostile-results.json', fixture)]);
+  await waitFor('the results', () => cards().length > 0);
+  checkPanels('Results');
+  const shown = `${markdownResults.textContent}\n${byId('json-results').textContent}`;
+  payloads.forEach((payload) => {
+    const escaped = JSON.stringify(payload).slice(1, -1);
+    if (!shown.includes(payload) && !shown.includes(escaped)) {
+      problems.push(`Results: ${JSON.stringify(payload)} is not shown.`);
+    }
+  });
+
+  // Every element of the review queue.
+  click(byId('review-queue-button'));
+  let reviewSteps = 0;
+  while (!reviewQueuePanel.classList.contains('hidden')) {
+    if (++reviewSteps > MAX_REVIEW_STEPS) {
+      throw new Error('The review queue did not finish.');
+    }
+    checkPanels('Review queue');
+    click(
+      findButton(reviewQueuePanel, 'Next') ||
+        findButton(reviewQueuePanel, 'Finish'),
+    );
+  }
+  if (reviewSteps === 0) {
+    problems.push('Review queue: no element was queued.');
+  }
+
+  // A region drawn on the page and extracted by the model, which answers
+  // with the fixture's elements.
+  const cardCount = cards().length;
+  click(byId('draw-region-button'));
+  document
+    .querySelector('.preview-page')
+    .dispatchEvent(mouse('mousedown', 50, 50));
+  document.dispatchEvent(mouse('mousemove', 400, 400));
+  document.dispatchEvent(mouse('mouseup', 400, 400));
+  checkPanels('Region panel');
+  click(findButton(byId('region-panel'), 'Extract with model'));
+  await waitFor('the region results', () => cards().length > cardCount);
+  checkPanels('Region results');
+  expectText('Region results', 'review-status', 'from the region');
+
+  // The edit history, with an entry naming each deleted element.
+  while (cards().length > 0) {
+    click(cards()[0].querySelector('[title="Delete"]'));
+  }
+  checkPanels('Edit history');
+  labels.forEach((label) => expectText('Edit history', 'history-list', label));
+
+  // The cards and keyed JSON of a user-defined schema.
+  markdownResults.replaceChildren();
+  chooseFiles([resultsFile('hostile-schema-results.json', results)]);
+  await waitFor('the schema results', () => cards().length > 0);
+  checkPanels('Schema results');
+
+  // An import error that quotes a payload. The app logs it too, which is
+  // expected here.
+  const [payload] = payloads;
+  const logError = console.error;
+  console.error = () => {};
+  try {
+    chooseFiles([
+      resultsFile('hostile-error.json', {
+        documents: [{ file_name: DOCUMENT_NAME, schema: payload, result: {} }],
+      }),
+    ]);
+    await waitFor('the import error', () =>
+      /could not be loaded/.test(byId('upload-error').textContent),
+    );
+  } finally {
+    console.error = logError;
+  }
+  checkPanels('Import error');
+
+  window.close();
+  if (problems.length > 0) {
+    problems.forEach((problem) => console.error(problem));
+    throw new Error(`${problems.length} payload(s) escaped into the page.`);
+  }
+  console.log(
+    `All ${payloads.length} payloads in ${FIXTURE} were rendered as text.`,
+  );
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
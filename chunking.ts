@@ -0,0 +1,184 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { ExtractedElement, TableElement } from './elements';
+
+// --- Page-Chunked Extraction for Long PDFs ---
+
+// PDFs longer than this are extracted in chunks of CHUNK_SIZE pages.
+export const CHUNK_PAGE_THRESHOLD = 8;
+export const CHUNK_SIZE = 5;
+// Scale used to rasterize chunk pages; 2x keeps small print legible.
+const CHUNK_RENDER_SCALE = 2;
+
+export interface PageChunk {
+  // 1-based, inclusive page range
+  start: number;
+  end: number;
+}
+
+export function planChunks(numPages: number, chunkSize = CHUNK_SIZE) {
+  const chunks: PageChunk[] = [];
+  for (let start = 1; start <= numPages; start += chunkSize) {
+    chunks.push({ start, end: Math.min(start + chunkSize - 1, numPages) });
+  }
+  return chunks;
+}
+
+/**
+ * Renders the pages of a chunk from an already loaded pdf.js document to JPEG
+ * `inlineData` parts, each preceded by a text part naming its position.
+ */
+export async function renderChunkParts(pdf: any, chunk: PageChunk) {
+  const parts: any[] = [];
+  for (let pageNum = chunk.start; pageNum <= chunk.end; pageNum++) {
+    const page = await pdf.getPage(pageNum);
+    const viewport = page.getViewport({ scale: CHUNK_RENDER_SCALE });
+    const canvas = document.createElement('canvas');
+    canvas.width = viewport.width;
+    canvas.height = viewport.height;
+    await page.render({
+      canvasContext: canvas.getContext('2d'),
+      viewport,
+    }).promise;
+
+    parts.push({ text: `Page ${pageNum - chunk.start + 1}:` });
+    parts.push({
+      inlineData: {
+        mimeType: 'image/jpeg',
+        data: canvas.toDataURL('image/jpeg', 0.85).split(',')[1],
+      },
+    });
+    // Release the bitmap memory right away; long documents add up quickly.
+    canvas.width = 0;
+    canvas.height = 0;
+  }
+  return parts;
+}
+
+export function buildChunkNote(chunk: PageChunk, numPages: number) {
+  const count = chunk.end - chunk.start + 1;
+  return `**Document Pages:** The document is provided as ${count} page image(s), each preceded by its page label. They are pages ${chunk.start}-${chunk.end} of a ${numPages}-page document. Report every \`page\` relative to the images in this request: the first image is page 1. Extract only what is visible on these pages.`;
+}
+
+/**
+ * Converts chunk-relative page numbers to absolute page numbers, in place so
+ * that per-element validation issues stay attached.
+ */
+export function offsetChunkElements(
+  elements: ExtractedElement[],
+  chunk: PageChunk,
+) {
+  elements.forEach((element) => {
+    if (typeof element.page === 'number') {
+      element.page += chunk.start - 1;
+    }
+  });
+  return elements;
+}
+
+/**
+ * Merges the (already offset) results of all chunks, in order, into one list.
+ * With `keyed` set (user-defined schemas), each field keeps its first
+ * occurrence; tables for the same field are concatenated.
+ */
+export function mergeChunkResults(
+  chunkResults: ExtractedElement[][],
+  keyed = false,
+) {
+  const merged = chunkResults.flat();
+  if (!keyed) {
+    return stitchTables(merged);
+  }
+
+  const byLabel = new Map<string, ExtractedElement>();
+  const result: ExtractedElement[] = [];
+  merged.forEach((element) => {
+    const existing = byLabel.get(element.label);
+    if (!existing) {
+      byLabel.set(element.label, element);
+      result.push(element);
+    } else if (existing.type === 'table' && element.type === 'table') {
+      appendTableRows(existing, element);
+    }
+  });
+  return result;
+}
+
+// The page of the last part of a (possibly already stitched) table.
+function getLastPage(table: TableElement) {
+  const continuations = table.continuations || [];
+  return continuations.length > 0
+    ? continuations[continuations.length - 1].page
+    : table.page;
+}
+
+const normalizeCell = (cell: any) =>
+  String(cell ?? '')
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, ' ');
+
+function headersMatch(a: string[] = [], b: string[] = []) {
+  return (
+    a.length > 0 &&
+    a.length === b.length &&
+    a.every((cell, i) => normalizeCell(cell) === normalizeCell(b[i]))
+  );
+}
+
+function appendTableRows(target: TableElement, continuation: TableElement) {
+  const headers = target.table_data?.headers || [];
+  const rows = continuation.table_data?.rows || [];
+  // Drop a header row repeated at the top of the continued table.
+  const newRows =
+    rows.length > 0 && headersMatch(headers, rows[0]) ? rows.slice(1) : rows;
+  target.table_data = {
+    headers,
+    rows: [...(target.table_data?.rows || []), ...newRows],
+  };
+  target.continuations = [
+    ...(target.continuations || []),
+    { page: continuation.page, bounding_box: continuation.bounding_box },
+    ...(continuation.continuations || []),
+  ];
+}
+
+/**
+ * Stitches tables that continue across a page break: a table that is the last
+ * content on its page is merged with a table that is the first content on the
+ * next page when their headers match. The stitched table keeps the first
+ * part's page and box and records the other parts in `continuations`.
+ */
+export function stitchTables(elements: ExtractedElement[]) {
+  // Marginalia (page numbers, running headers) may sit between the two parts.
+  const isContent = (element: ExtractedElement) =>
+    element.type !== 'marginalia';
+  const result: ExtractedElement[] = [];
+  let lastContent: ExtractedElement | null = null;
+
+  elements.forEach((element) => {
+    if (!isContent(element)) {
+      result.push(element);
+      return;
+    }
+
+    if (
+      lastContent?.type === 'table' &&
+      element.type === 'table' &&
+      element.page === getLastPage(lastContent) + 1 &&
+      headersMatch(
+        lastContent.table_data?.headers,
+        element.table_data?.headers,
+      )
+    ) {
+      appendTableRows(lastContent, element);
+      return;
+    }
+
+    result.push(element);
+    lastContent = element;
+  });
+  return result;
+}
@@ -0,0 +1,371 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// --- Extracted Element Model ---
+// The contract for `extracted_elements`. EXTRACTION_SCHEMA (extraction.ts) is
+// typed against these definitions, so the two cannot drift apart.
+
+export const ELEMENT_TYPES = [
+  'field',
+  'field_group',
+  'table',
+  'paragraph',
+  'checkbox',
+  'logo',
+  'figure',
+  'marginalia',
+  'attestation',
+] as const;
+
+export type ElementType = (typeof ELEMENT_TYPES)[number];
+
+/**
+ * A box in normalized page coordinates (0..1); the origin is the top-left
+ * corner of the page.
+ */
+export interface BoundingBox {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+export interface TableData {
+  headers: string[];
+  rows: string[][];
+}
+
+// Kinds of personal data that results are tagged with.
+export const PII_CATEGORIES = [
+  'name',
+  'date_of_birth',
+  'ssn',
+  'account_number',
+  'address',
+  'phone',
+] as const;
+
+export type PiiCategory = (typeof PII_CATEGORIES)[number];
+
+export interface GroupedField {
+  label: string;
+  value: string;
+  // The key of the schema field it holds, for results of a user-defined schema
+  schema_key?: string;
+  // How sure the model is of the field, from 0 to 1
+  confidence?: number;
+  // Personal data in the field, as tagged by the model
+  pii?: PiiCategory[];
+}
+
+// Where a table stitched across a page break continues.
+export interface TableContinuation {
+  page: number;
+  bounding_box?: BoundingBox;
+}
+
+interface BaseElement<T extends ElementType> {
+  type: T;
+  // The key of a field, or the title of a table, group or paragraph
+  label?: string;
+  // The key of the schema field it holds, for results of a user-defined
+  // schema. Unlike the label, it stays put when a reviewer edits the element.
+  schema_key?: string;
+  // 1-based page number
+  page: number;
+  bounding_box?: BoundingBox;
+  // Per-line boxes for multi-line text, for a tighter highlight
+  line_boxes?: BoundingBox[];
+  // How sure the model is of the element, from 0 to 1
+  confidence?: number;
+  // Personal data in the element, as tagged by the model
+  pii?: PiiCategory[];
+  // Set once a reviewer has corrected the element by hand
+  edited?: boolean;
+}
+
+// Elements whose content is a single text value (or a description, for
+// visual elements).
+interface ValueElement<T extends ElementType> extends BaseElement<T> {
+  value?: string;
+}
+
+export type FieldElement = ValueElement<'field'>;
+export type ParagraphElement = ValueElement<'paragraph'>;
+export type CheckboxElement = ValueElement<'checkbox'>;
+export type LogoElement = ValueElement<'logo'>;
+export type FigureElement = ValueElement<'figure'>;
+export type MarginaliaElement = ValueElement<'marginalia'>;
+export type AttestationElement = ValueElement<'attestation'>;
+
+export interface FieldGroupElement extends BaseElement<'field_group'> {
+  fields: GroupedField[];
+}
+
+export interface TableElement extends BaseElement<'table'> {
+  table_data: TableData;
+  // Set when the table was stitched from parts on consecutive pages
+  continuations?: TableContinuation[];
+}
+
+export type ExtractedElement =
+  | FieldElement
+  | FieldGroupElement
+  | TableElement
+  | ParagraphElement
+  | CheckboxElement
+  | LogoElement
+  | FigureElement
+  | MarginaliaElement
+  | AttestationElement;
+
+export type ValueElementType = Exclude<ElementType, 'field_group' | 'table'>;
+
+type KeysOfUnion<T> = T extends unknown ? keyof T : never;
+
+// Every property the model is asked for. Continuations, schema keys and the
+// edited marker are added locally.
+export type ElementProperty = Exclude<
+  KeysOfUnion<ExtractedElement>,
+  'continuations' | 'schema_key' | 'edited'
+>;
+
+// Scores at or above HIGH_CONFIDENCE count as certain; scores below
+// LOW_CONFIDENCE need a closer look.
+export const HIGH_CONFIDENCE = 0.85;
+export const LOW_CONFIDENCE = 0.6;
+
+export type ConfidenceLevel = 'high' | 'medium' | 'low';
+
+export function getConfidenceLevel(confidence: number): ConfidenceLevel {
+  if (confidence >= HIGH_CONFIDENCE) return 'high';
+  return confidence >= LOW_CONFIDENCE ? 'medium' : 'low';
+}
+
+/**
+ * The lowest score of an element and its fields, or undefined if the model
+ * gave none. Elements corrected by hand have no score: they were reviewed.
+ */
+export function getElementConfidence(element: ExtractedElement) {
+  if (element.edited) return undefined;
+  const scores = [
+    element.confidence,
+    ...(element.type === 'field_group'
+      ? element.fields.map((field) => field.confidence)
+      : []),
+  ].filter((score) => typeof score === 'number');
+  return scores.length > 0 ? Math.min(...scores) : undefined;
+}
+
+/**
+ * The elements a reviewer should check: those scored below HIGH_CONFIDENCE
+ * themselves or in one of their fields, least confident first.
+ */
+export function getReviewQueue(elements: ExtractedElement[]) {
+  return elements
+    .map((element) => ({ element, confidence: getElementConfidence(element) }))
+    .filter(
+      ({ confidence }) =>
+        confidence !== undefined && confidence < HIGH_CONFIDENCE,
+    )
+    .sort((a, b) => a.confidence - b.confidence)
+    .map(({ element }) => element);
+}
+
+export function isElementType(type: unknown): type is ElementType {
+  return ELEMENT_TYPES.includes(type as ElementType);
+}
+
+export function hasValue(
+  element: ExtractedElement,
+): element is Extract<ExtractedElement, { value?: string }> {
+  return element.type !== 'field_group' && element.type !== 'table';
+}
+
+// The text value of an element, or '' for groups and tables.
+export function getElementValue(element: ExtractedElement) {
+  return hasValue(element) ? element.value || '' : '';
+}
+
+/**
+ * The boxes to highlight or hit-test for an element: its line boxes when it
+ * has them, otherwise its bounding box.
+ */
+export function getElementBoxes(element: ExtractedElement): BoundingBox[] {
+  if (element.line_boxes && element.line_boxes.length > 0) {
+    return element.line_boxes;
+  }
+  return element.bounding_box ? [element.bounding_box] : [];
+}
+
+// The content of an element as plain text, one line per field or table row.
+export function elementToText(element: ExtractedElement) {
+  switch (element.type) {
+    case 'field_group':
+      return element.fields
+        .map((field) => `${field.label}: ${field.value}`)
+        .join('\n');
+    case 'table':
+      return element.table_data.rows.map((row) => row.join(' | ')).join('\n');
+    default:
+      return element.value || '';
+  }
+}
+
+/**
+ * Returns a copy of an element with a different type, carrying its content
+ * over as well as the shapes allow: text becomes a single group field or
+ * table cell, and groups and tables are flattened to text.
+ */
+export function convertElementType(
+  element: ExtractedElement,
+  type: ElementType,
+): ExtractedElement {
+  if (element.type === type) return element;
+
+  const {
+    label,
+    schema_key,
+    page,
+    bounding_box,
+    line_boxes,
+    confidence,
+    pii,
+    edited,
+  } = element;
+  const base = {
+    label,
+    schema_key,
+    page,
+    bounding_box,
+    line_boxes,
+    confidence,
+    pii,
+    edited,
+  };
+  const text = elementToText(element);
+
+  switch (type) {
+    case 'field_group':
+      return {
+        type,
+        ...base,
+        fields: text ? [{ label: label || '', value: text }] : [],
+      };
+    case 'table':
+      return {
+        type,
+        ...base,
+        table_data: { headers: ['Value'], rows: text ? [[text]] : [] },
+      };
+    default:
+      return { type, ...base, value: text };
+  }
+}
+
+/**
+ * The index at which an element on `page` with `box` belongs in reading order:
+ * before the first element that starts below it (or level with it, further
+ * right) on the same page, or on a later page.
+ */
+export function getReadingOrderIndex(
+  elements: ExtractedElement[],
+  page: number,
+  box: BoundingBox,
+) {
+  const index = elements.findIndex((element) => {
+    if (element.page !== page) return element.page > page;
+    const other = element.bounding_box;
+    if (!other) return false;
+    // Boxes within half a line of each other count as the same line.
+    if (Math.abs(other.top - box.top) < 0.005) return other.left > box.left;
+    return other.top > box.top;
+  });
+  return index === -1 ? elements.length : index;
+}
+
+// The smallest box containing all of `boxes`, or undefined if there are none.
+export function unionBoxes(boxes: BoundingBox[]): BoundingBox | undefined {
+  if (boxes.length === 0) return undefined;
+  return {
+    left: Math.min(...boxes.map((box) => box.left)),
+    top: Math.min(...boxes.map((box) => box.top)),
+    right: Math.max(...boxes.map((box) => box.right)),
+    bottom: Math.max(...boxes.map((box) => box.bottom)),
+  };
+}
+
+// The text of an element line by line, tables including their header row.
+export function getElementLines(element: ExtractedElement) {
+  if (element.type === 'table') {
+    return [element.table_data.headers, ...element.table_data.rows].map(
+      (row) => row.join(' '),
+    );
+  }
+  return elementToText(element).split('\n');
+}
+
+/**
+ * Pairs each non-empty line of an element's text (or of `text`) with a box:
+ * one line per line box when the counts agree, otherwise the lines are
+ * stacked evenly in the element's overall box.
+ */
+export function layoutElementLines(
+  element: ExtractedElement,
+  text = getElementLines(element),
+) {
+  const lines = text.filter((line) => line.trim());
+  const boxes = getElementBoxes(element);
+  if (lines.length === 0 || boxes.length === 0) return [];
+  if (lines.length === boxes.length) {
+    return lines.map((text, i) => ({ text, box: boxes[i] }));
+  }
+  const area = element.bounding_box || unionBoxes(boxes);
+  const lineHeight = (area.bottom - area.top) / lines.length;
+  return lines.map((text, i) => ({
+    text,
+    box: {
+      left: area.left,
+      right: area.right,
+      top: area.top + i * lineHeight,
+      bottom: area.top + (i + 1) * lineHeight,
+    },
+  }));
+}
+
+/**
+ * Combines elements from the same page into one field group: fields and
+ * groups contribute their fields, everything else becomes a single field
+ * holding its text.
+ */
+export function mergeIntoFieldGroup(
+  elements: ExtractedElement[],
+): FieldGroupElement {
+  const fields = elements.flatMap((element): GroupedField[] => {
+    if (element.type === 'field_group') return element.fields;
+    const field: GroupedField = {
+      label: element.label || element.type,
+      value: elementToText(element),
+    };
+    // The field keeps what identifies and tags the element's value.
+    if (element.schema_key !== undefined) field.schema_key = element.schema_key;
+    if (element.confidence !== undefined) field.confidence = element.confidence;
+    if (element.pii) field.pii = element.pii;
+    return [field];
+  });
+  const groups = elements.filter((element) => element.type === 'field_group');
+  const group: FieldGroupElement = {
+    type: 'field_group',
+    label: groups[0]?.label || 'Field Group',
+    page: elements[0].page,
+    bounding_box: unionBoxes(
+      elements.map((element) => element.bounding_box).filter(Boolean),
+    ),
+    fields,
+    edited: true,
+  };
+  if (!group.bounding_box) delete group.bounding_box;
+  return group;
+}
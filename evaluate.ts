@@ -0,0 +1,184 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { ExtractedElement } from './elements';
+import {
+  EvaluatedDocument,
+  EvaluationReport,
+  evaluateDocuments,
+  formatReport,
+  formatReportComparison,
+} from './evaluation';
+import {
+  ExtractionProvider,
+  createFixtureProvider,
+  createGeminiProvider,
+} from './providers';
+import { validateElements } from './validation';
+
+// --- Headless Evaluation Runner ---
+// Runs extraction over a hand-labelled document set and scores the results.
+// See "Evaluating extraction accuracy" in the README.
+
+const USAGE = `Usage:
+  npm run evaluate -- --truth <labelled.json> [options]
+  npm run evaluate -- diff <run-a.json> <run-b.json>
+
+Options:
+  --truth <file>          Batch JSON export holding the corrected results
+  --docs <dir>            Where the documents are (default: next to --truth)
+  --provider <id>         fixtures (default) or gemini
+  --fixtures <file>       Recorded responses for the fixtures provider
+  --model <name>          Model to request (default: the provider's first)
+  --ocr-threshold <0-100> OCR confidence threshold (default: 75)
+  --out <file>            Save the run, e.g. to diff it later
+  --compare <file>        Print a side-by-side diff against a saved run`;
+
+const MIME_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+};
+
+interface LabelledDocument {
+  file_name: string;
+  extracted_elements?: ExtractedElement[];
+}
+
+async function readJson(file: string) {
+  return JSON.parse(await readFile(file, 'utf8'));
+}
+
+async function createProvider(
+  id: string,
+  fixturesFile: string,
+): Promise<ExtractionProvider> {
+  if (id === 'gemini') {
+    return createGeminiProvider(process.env.GEMINI_API_KEY);
+  }
+  if (id === 'fixtures') {
+    return createFixtureProvider(await readJson(fixturesFile));
+  }
+  throw new Error(`Unknown provider "${id}".`);
+}
+
+/**
+ * Extracts one document the way the app does for a single request. Long PDFs
+ * are sent whole, since page rendering for chunking needs a browser.
+ */
+async function extractFile(
+  provider: ExtractionProvider,
+  file: string,
+  pageCount: number,
+  options: { model: string; ocrThreshold: number },
+) {
+  const mimeType = MIME_TYPES[path.extname(file).toLowerCase()];
+  if (!mimeType) {
+    throw new Error('Unsupported file type.');
+  }
+  const data = (await readFile(file)).toString('base64');
+  const result = await provider.extract(
+    [{ inlineData: { mimeType, data } }],
+    null,
+    options,
+  );
+  return validateElements(result.elements, { pageCount }).elements;
+}
+
+async function runEvaluation(values: Record<string, string | undefined>) {
+  const labelled: LabelledDocument[] = (await readJson(values.truth))
+    .documents;
+  if (!Array.isArray(labelled)) {
+    throw new Error(`${values.truth} is not a batch JSON export.`);
+  }
+  const docsDir = values.docs || path.dirname(values.truth);
+  const provider = await createProvider(
+    values.provider || 'fixtures',
+    values.fixtures || 'fixtures/recorded-responses.json',
+  );
+  const model = values.model || provider.models[0];
+  const ocrThreshold = parseInt(values['ocr-threshold'] || '75', 10);
+
+  const documents: EvaluatedDocument[] = [];
+  for (const entry of labelled) {
+    if (!entry.extracted_elements) {
+      console.warn(
+        `Skipping ${entry.file_name}: it has no extracted_elements (schema results are not evaluated).`,
+      );
+      continue;
+    }
+    const truth = entry.extracted_elements;
+    // The labelled elements are the best page count available without pdf.js.
+    const pageCount = Math.max(1, ...truth.map((element) => element.page));
+    const doc: EvaluatedDocument = {
+      name: entry.file_name,
+      truth,
+      predicted: [],
+    };
+    try {
+      doc.predicted = await extractFile(
+        provider,
+        path.join(docsDir, entry.file_name),
+        pageCount,
+        { model, ocrThreshold },
+      );
+    } catch (error) {
+      doc.error = error instanceof Error ? error.message : String(error);
+    }
+    console.error(`${doc.error ? 'failed' : 'done'}: ${doc.name}`);
+    documents.push(doc);
+  }
+
+  const report = evaluateDocuments(documents, `${provider.name} / ${model}`);
+  console.log(formatReport(report));
+  if (values.out) {
+    await writeFile(values.out, JSON.stringify(report, null, 2));
+  }
+  if (values.compare) {
+    const baseline: EvaluationReport = await readJson(values.compare);
+    console.log('\n' + formatReportComparison(baseline, report));
+  }
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      truth: { type: 'string' },
+      docs: { type: 'string' },
+      provider: { type: 'string' },
+      fixtures: { type: 'string' },
+      model: { type: 'string' },
+      'ocr-threshold': { type: 'string' },
+      out: { type: 'string' },
+      compare: { type: 'string' },
+      help: { type: 'boolean' },
+    },
+  });
+
+  if (positionals[0] === 'diff' && positionals.length === 3) {
+    const [base, next] = await Promise.all(
+      positionals.slice(1).map((file) => readJson(file)),
+    );
+    console.log(formatReportComparison(base, next));
+    return;
+  }
+  if (values.help || !values.truth) {
+    console.log(USAGE);
+    return;
+  }
+  const { help, ...options } = values;
+  await runEvaluation(options);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,375 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {
+  BoundingBox,
+  ELEMENT_TYPES,
+  ElementType,
+  ExtractedElement,
+  elementToText,
+} from './elements';
+
+// --- Ground-Truth Evaluation ---
+
+// Elements of the same type and page pair up when their boxes overlap at
+// least this much (or, without boxes, their text is at least this similar).
+export const MATCH_THRESHOLD = 0.5;
+// Matched values at least this similar count as a fuzzy match.
+export const FUZZY_MATCH_THRESHOLD = 0.9;
+
+export interface EvaluatedDocument {
+  name: string;
+  truth: ExtractedElement[];
+  // The extracted elements, or an error if extraction failed
+  predicted: ExtractedElement[];
+  error?: string;
+}
+
+export interface MetricSummary {
+  count: number;
+  mean: number | null;
+  median: number | null;
+}
+
+export interface TypeMetrics {
+  truth: number;
+  predicted: number;
+  matched: number;
+  precision: number | null;
+  recall: number | null;
+  // Shares of matched elements whose values match exactly / closely
+  exactMatch: number | null;
+  fuzzyMatch: number | null;
+  boxIoU: MetricSummary;
+  lineIoU: MetricSummary;
+}
+
+export type MetricsKey = ElementType | 'all';
+
+export interface EvaluationReport {
+  // What produced the run, e.g. the provider and model
+  label: string;
+  createdAt: string;
+  documents: EvaluatedDocument[];
+  metrics: Partial<Record<MetricsKey, TypeMetrics>>;
+}
+
+interface MetricsAccumulator {
+  truth: number;
+  predicted: number;
+  matched: number;
+  exact: number;
+  fuzzy: number;
+  boxIoUs: number[];
+  lineIoUs: number[];
+}
+
+function createAccumulator(): MetricsAccumulator {
+  return {
+    truth: 0,
+    predicted: 0,
+    matched: 0,
+    exact: 0,
+    fuzzy: 0,
+    boxIoUs: [],
+    lineIoUs: [],
+  };
+}
+
+export function boxIoU(a: BoundingBox, b: BoundingBox) {
+  const width = Math.min(a.right, b.right) - Math.max(a.left, b.left);
+  const height = Math.min(a.bottom, b.bottom) - Math.max(a.top, b.top);
+  if (width <= 0 || height <= 0) return 0;
+  const intersection = width * height;
+  const area = (box: BoundingBox) =>
+    (box.right - box.left) * (box.bottom - box.top);
+  return intersection / (area(a) + area(b) - intersection);
+}
+
+/**
+ * The mean over the truth line boxes of the best IoU with any predicted line
+ * box, so missing and misplaced lines both lower the score.
+ */
+function lineBoxesIoU(truth: BoundingBox[], predicted: BoundingBox[]) {
+  const best = truth.map((box) =>
+    Math.max(0, ...predicted.map((other) => boxIoU(box, other))),
+  );
+  return best.reduce((sum, value) => sum + value, 0) / best.length;
+}
+
+function normalizeText(text: string) {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function levenshtein(a: string, b: string) {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Similarity of two texts from 0 to 1, ignoring case and whitespace.
+export function textSimilarity(a: string, b: string) {
+  const left = normalizeText(a);
+  const right = normalizeText(b);
+  const length = Math.max(left.length, right.length);
+  if (length === 0) return 1;
+  return 1 - levenshtein(left, right) / length;
+}
+
+function matchScore(truth: ExtractedElement, predicted: ExtractedElement) {
+  if (truth.bounding_box && predicted.bounding_box) {
+    return boxIoU(truth.bounding_box, predicted.bounding_box);
+  }
+  return textSimilarity(elementToText(truth), elementToText(predicted));
+}
+
+/**
+ * Pairs predicted elements with ground-truth elements of the same type and
+ * page, best score first. Each element is used at most once.
+ */
+export function matchElements(
+  truth: ExtractedElement[],
+  predicted: ExtractedElement[],
+) {
+  const candidates: { truth: number; predicted: number; score: number }[] = [];
+  truth.forEach((truthElement, i) => {
+    predicted.forEach((predictedElement, j) => {
+      if (
+        truthElement.type !== predictedElement.type ||
+        truthElement.page !== predictedElement.page
+      ) {
+        return;
+      }
+      const score = matchScore(truthElement, predictedElement);
+      if (score >= MATCH_THRESHOLD) {
+        candidates.push({ truth: i, predicted: j, score });
+      }
+    });
+  });
+  candidates.sort((a, b) => b.score - a.score);
+
+  const usedTruth = new Set<number>();
+  const usedPredicted = new Set<number>();
+  const pairs: [ExtractedElement, ExtractedElement][] = [];
+  candidates.forEach((candidate) => {
+    if (
+      usedTruth.has(candidate.truth) ||
+      usedPredicted.has(candidate.predicted)
+    ) {
+      return;
+    }
+    usedTruth.add(candidate.truth);
+    usedPredicted.add(candidate.predicted);
+    pairs.push([truth[candidate.truth], predicted[candidate.predicted]]);
+  });
+  return pairs;
+}
+
+function accumulateDocument(
+  accumulators: Map<MetricsKey, MetricsAccumulator>,
+  doc: EvaluatedDocument,
+) {
+  const get = (key: MetricsKey) => {
+    if (!accumulators.has(key)) accumulators.set(key, createAccumulator());
+    return accumulators.get(key);
+  };
+  const forElement = (element: ExtractedElement) => [
+    get(element.type),
+    get('all'),
+  ];
+
+  doc.truth.forEach((element) =>
+    forElement(element).forEach((acc) => acc.truth++),
+  );
+  doc.predicted.forEach((element) =>
+    forElement(element).forEach((acc) => acc.predicted++),
+  );
+
+  matchElements(doc.truth, doc.predicted).forEach(([truth, predicted]) => {
+    const truthText = elementToText(truth);
+    const predictedText = elementToText(predicted);
+    const exact = truthText.trim() === predictedText.trim();
+    const fuzzy =
+      exact ||
+      textSimilarity(truthText, predictedText) >= FUZZY_MATCH_THRESHOLD;
+
+    forElement(truth).forEach((acc) => {
+      acc.matched++;
+      if (exact) acc.exact++;
+      if (fuzzy) acc.fuzzy++;
+      if (truth.bounding_box && predicted.bounding_box) {
+        acc.boxIoUs.push(boxIoU(truth.bounding_box, predicted.bounding_box));
+      }
+      if (truth.line_boxes?.length && predicted.line_boxes?.length) {
+        acc.lineIoUs.push(
+          lineBoxesIoU(truth.line_boxes, predicted.line_boxes),
+        );
+      }
+    });
+  });
+}
+
+function summarize(values: number[]): MetricSummary {
+  if (values.length === 0) return { count: 0, mean: null, median: null };
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return {
+    count: values.length,
+    mean: values.reduce((sum, value) => sum + value, 0) / values.length,
+    median:
+      sorted.length % 2
+        ? sorted[middle]
+        : (sorted[middle - 1] + sorted[middle]) / 2,
+  };
+}
+
+const ratio = (part: number, whole: number) => (whole ? part / whole : null);
+
+function toMetrics(acc: MetricsAccumulator): TypeMetrics {
+  return {
+    truth: acc.truth,
+    predicted: acc.predicted,
+    matched: acc.matched,
+    precision: ratio(acc.matched, acc.predicted),
+    recall: ratio(acc.matched, acc.truth),
+    exactMatch: ratio(acc.exact, acc.matched),
+    fuzzyMatch: ratio(acc.fuzzy, acc.matched),
+    boxIoU: summarize(acc.boxIoUs),
+    lineIoU: summarize(acc.lineIoUs),
+  };
+}
+
+/**
+ * Scores extracted elements against hand-labelled ground truth, per element
+ * type and overall. Documents that failed to extract count as predicting
+ * nothing.
+ */
+export function evaluateDocuments(
+  documents: EvaluatedDocument[],
+  label: string,
+): EvaluationReport {
+  const accumulators = new Map<MetricsKey, MetricsAccumulator>();
+  documents.forEach((doc) => accumulateDocument(accumulators, doc));
+
+  const metrics: EvaluationReport['metrics'] = {};
+  [...ELEMENT_TYPES, 'all' as const].forEach((key) => {
+    if (accumulators.has(key)) {
+      metrics[key] = toMetrics(accumulators.get(key));
+    }
+  });
+  return { label, createdAt: new Date().toISOString(), documents, metrics };
+}
+
+// --- Report Formatting ---
+
+type MetricColumn = {
+  name: string;
+  value: (metrics: TypeMetrics) => number | null;
+  // Counts are shown as integers, everything else as a 0..1 score
+  isCount?: boolean;
+};
+
+const METRIC_COLUMNS: MetricColumn[] = [
+  { name: 'truth', value: (m) => m.truth, isCount: true },
+  { name: 'predicted', value: (m) => m.predicted, isCount: true },
+  { name: 'precision', value: (m) => m.precision },
+  { name: 'recall', value: (m) => m.recall },
+  { name: 'exact', value: (m) => m.exactMatch },
+  { name: 'fuzzy', value: (m) => m.fuzzyMatch },
+  { name: 'box IoU', value: (m) => m.boxIoU.mean },
+  { name: 'line IoU', value: (m) => m.lineIoU.mean },
+];
+
+function formatValue(value: number | null, isCount?: boolean) {
+  if (value === null || value === undefined) return '-';
+  return isCount ? String(value) : value.toFixed(3);
+}
+
+function formatTable(rows: string[][]) {
+  const widths = rows[0].map((_, column) =>
+    Math.max(...rows.map((row) => row[column].length)),
+  );
+  return rows
+    .map((row) =>
+      row
+        .map((cell, column) =>
+          column === 0
+            ? cell.padEnd(widths[column])
+            : cell.padStart(widths[column]),
+        )
+        .join('  '),
+    )
+    .join('\n');
+}
+
+function metricsKeys(...reports: EvaluationReport[]) {
+  return [...ELEMENT_TYPES, 'all' as const].filter((key) =>
+    reports.some((report) => report.metrics[key]),
+  );
+}
+
+// A plain-text table of a report's metrics, one row per element type.
+export function formatReport(report: EvaluationReport) {
+  const failed = report.documents.filter((doc) => doc.error);
+  const rows = [
+    ['type', ...METRIC_COLUMNS.map((column) => column.name)],
+    ...metricsKeys(report).map((key) => [
+      key,
+      ...METRIC_COLUMNS.map((column) =>
+        formatValue(column.value(report.metrics[key]), column.isCount),
+      ),
+    ]),
+  ];
+  const lines = [
+    `${report.label} (${report.documents.length} documents, ${report.createdAt})`,
+    formatTable(rows),
+    ...failed.map((doc) => `Failed: ${doc.name}: ${doc.error}`),
+  ];
+  return lines.join('\n');
+}
+
+/**
+ * Two runs side by side: for each element type and metric, the value in
+ * each run and the change from `base` to `next`.
+ */
+export function formatReportComparison(
+  base: EvaluationReport,
+  next: EvaluationReport,
+) {
+  const rows = [['type / metric', 'A', 'B', 'change']];
+  metricsKeys(base, next).forEach((key) => {
+    METRIC_COLUMNS.forEach((column) => {
+      const before = base.metrics[key] ? column.value(base.metrics[key]) : null;
+      const after = next.metrics[key] ? column.value(next.metrics[key]) : null;
+      const change =
+        before === null || after === null
+          ? '-'
+          : `${after - before >= 0 ? '+' : ''}${formatValue(
+              after - before,
+              column.isCount,
+            )}`;
+      rows.push([
+        `${key} ${column.name}`,
+        formatValue(before, column.isCount),
+        formatValue(after, column.isCount),
+        change,
+      ]);
+    });
+  });
+  return [
+    `A: ${base.label} (${base.createdAt})`,
+    `B: ${next.label} (${next.createdAt})`,
+    formatTable(rows),
+  ].join('\n');
+}
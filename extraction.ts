@@ -0,0 +1,235 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { Schema, Type } from '@google/genai';
+import { ELEMENT_TYPES, ElementProperty, PII_CATEGORIES } from './elements';
+import {
+  UserSchema,
+  buildResponseSchema,
+  buildSchemaPrompt,
+  userResultToElements,
+} from './schemas';
+
+// --- Generic Extraction Schema & Prompt ---
+
+const BOUNDING_BOX_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    left: { type: Type.NUMBER },
+    top: { type: Type.NUMBER },
+    right: { type: Type.NUMBER },
+    bottom: { type: Type.NUMBER },
+  },
+};
+
+const ELEMENT_TYPE_LIST = ELEMENT_TYPES.map((type) => `'${type}'`).join(', ');
+
+const PII_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  description: `The kinds of personal data in the value, if any: ${PII_CATEGORIES.map(
+    (category) => `'${category}'`,
+  ).join(', ')}.`,
+  items: { type: Type.STRING, format: 'enum', enum: [...PII_CATEGORIES] },
+};
+
+// Keyed by ElementProperty, so adding a property to the element types without
+// describing it here (or vice versa) fails to compile.
+const ELEMENT_PROPERTIES: Record<ElementProperty, Schema> = {
+  type: {
+    type: Type.STRING,
+    format: 'enum',
+    enum: [...ELEMENT_TYPES],
+    description: `The type of element. Must be one of: ${ELEMENT_TYPE_LIST}.`,
+  },
+  label: {
+    type: Type.STRING,
+    description:
+      'The label or key for a field, or a title for a table/paragraph.',
+  },
+  value: {
+    type: Type.STRING,
+    description:
+      "The extracted text value or a description for visual elements. Not used for 'table' or 'field_group' types.",
+  },
+  page: {
+    type: Type.INTEGER,
+    description:
+      'The page number where the element was found (starting from 1).',
+  },
+  bounding_box: {
+    ...BOUNDING_BOX_SCHEMA,
+    description:
+      "Normalized coordinates of the element's bounding box, with {left, top, right, bottom} properties. The origin (0,0) is the top-left corner of the page. For a 'field_group', this should encompass all fields in the group.",
+  },
+  line_boxes: {
+    type: Type.ARRAY,
+    description:
+      'For multi-line text elements, an array of bounding boxes for each individual text line to allow for a tighter visual fit. Each box MUST be in the {left, top, right, bottom} format.',
+    items: BOUNDING_BOX_SCHEMA,
+  },
+  confidence: {
+    type: Type.NUMBER,
+    description:
+      'How confident you are that the element is read and located correctly, from 0.0 (a guess) to 1.0 (certain).',
+  },
+  pii: PII_SCHEMA,
+  table_data: {
+    type: Type.OBJECT,
+    description:
+      "Contains header and row data. Only present if type is 'table'.",
+    properties: {
+      headers: {
+        type: Type.ARRAY,
+        items: { type: Type.STRING },
+        description: 'The column headers of the table.',
+      },
+      rows: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.ARRAY,
+          items: { type: Type.STRING },
+          description:
+            "An array of strings representing a single row's cells.",
+        },
+        description: 'The data rows of the table.',
+      },
+    },
+  },
+  fields: {
+    type: Type.ARRAY,
+    description:
+      "An array of individual fields. Only present if type is 'field_group'.",
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        label: { type: Type.STRING },
+        value: { type: Type.STRING },
+        confidence: {
+          type: Type.NUMBER,
+          description: 'How confident you are in this field, from 0.0 to 1.0.',
+        },
+        pii: PII_SCHEMA,
+      },
+    },
+  },
+};
+
+// The schema is now a constant to be used for both the API call and the UI display.
+export const EXTRACTION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    extracted_elements: {
+      type: Type.ARRAY,
+      description: 'An array of all elements extracted from the document.',
+      items: {
+        type: Type.OBJECT,
+        properties: ELEMENT_PROPERTIES,
+      },
+    },
+  },
+};
+
+export function buildExtractionPrompt(ocrThreshold: number) {
+  return `You are an Agentic Document Extraction system. Your primary goal is to perform a comprehensive analysis of the uploaded document and return structured, accurate data with intelligent grouping and precise visual traceability.
+
+**Core Instructions:**
+1.  **Analyze Document Type & OCR:** Detect if the document is a PDF or an image. For images, perform Optical Character Recognition (OCR) to read all text accurately before proceeding with extraction.
+2.  **OCR Confidence Threshold:** For image-based documents, you MUST only consider text recognized with a confidence level of ${ocrThreshold}% or higher. Discard any text below this threshold.
+3.  **Intelligent Grouping (Highest Priority):** You MUST actively identify and group logically related fields into a \`field_group\`. This is crucial for creating a clean, organized, and human-readable output. Examples of good grouping include:
+    -   Patient Information (Name, DOB, Age, etc.)
+    -   Provider Information (Name, Address, Phone, etc.)
+    -   An entire address block (street, city, state, zip).
+    Always prefer grouping over listing individual fields when a logical connection exists.
+4.  **Comprehensive Extraction:** You must extract ALL data from the document (meeting the confidence threshold). Leave nothing out.
+5.  **Sequential Ordering:** The elements in the final 'extracted_elements' array must be sorted to strictly follow the top-to-bottom reading order of the source document.
+6.  **Hyper-Precise Bounding Box Coordinates (CRITICAL):** For every element, you MUST provide coordinates in a **normalized {left, top, right, bottom} format**. This is the most critical part of your task. Precision is paramount.
+    - The origin (0,0) is the top-left corner of the page.
+    - \`left\`: The distance from the left edge of the page to the left edge of the box (0.0 to 1.0).
+    - \`top\`: The distance from the top edge of the page to the top edge of the box (0.0 to 1.0).
+    - \`right\`: The distance from the left edge of the page to the right edge of the box (0.0 to 1.0).
+    - \`bottom\`: The distance from the top edge of the page to the bottom edge of the box (0.0 to 1.0).
+    - Provide up to 5 decimal places for precision.
+7.  **Crucial Rules for Bounding Box Perfection:**
+    - **Pixel-Tight Fit:** The bounding box MUST be as tight as possible to the visible pixels of the text or element. There should be NO excessive padding or whitespace included inside the box.
+    - **Complete Enclosure:** Despite being tight, the box MUST completely encompass the entire logical element. Do not cut off parts of letters or symbols.
+    - **Handling Spaced/Fragmented Text (HIGH PRIORITY):** For text elements composed of multiple words with significant spacing between them (e.g., a "THANK YOU" sign spread across a page), you MUST treat it as a *single element*. The bounding box MUST start at the beginning of the first character of the first word (e.g., 'T') and end at the very end of the last character of the last word (e.g., 'U'), forming one single, all-encompassing rectangle.
+    - **Failure Condition Example:** For the text "First Name      John", creating one box for "First Name" and another for "John" is a failure if they represent a single logical field. You must identify it as a 'field' with label 'First Name' and value 'John' and create a bounding box that encloses BOTH parts.
+    - **DO NOT** create a bounding box around empty space. If an element's value is on a different part of the page from its label, the main \`bounding_box\` should cover both, and individual \`line_boxes\` can be used for the separate visual components.
+8.  **Granular Line Boxes for Tighter Fit:** For any element containing text that visibly spans multiple lines on the document (e.g., 'paragraph', long 'field' values), you MUST ALSO provide a 'line_boxes' array. Each item in this array should be a precise bounding box for a single line of text, also in the {left, top, right, bottom} format. This is crucial for creating a tight visual highlight.
+9.  **Element Categorization:** Classify each extracted element into one of the following types: ${ELEMENT_TYPE_LIST}.
+10. **Confidence Scores:** For every element, and for every field inside a \`field_group\`, provide a \`confidence\` between 0.0 and 1.0: how sure you are that the text was read correctly and the box placed correctly. Use low scores for faint, blurry, handwritten or partly hidden text, so reviewers know what to check. Do not give every element the same score.
+11. **Personal Data:** Tag every element, and every field inside a \`field_group\`, whose value identifies a person with \`pii\`: 'name' (people, not organizations), 'date_of_birth', 'ssn' (and other national ID numbers), 'account_number' (bank, card, policy, member or medical record numbers), 'address' or 'phone'. Leave \`pii\` out for everything else.
+
+**Type-Specific Instructions:**
+-   **field_group:** This is the preferred way to organize data. Use it liberally for sets of logically related fields. The 'bounding_box' for a group MUST encompass all of its child fields. Provide a clear and descriptive 'label' for the group (e.g., "Patient Information").
+-   **field:** A simple key-value pair. Use this ONLY for individual fields that do not logically belong to any larger group. If the 'value' spans multiple lines, populate the 'line_boxes' array.
+-   **paragraph:** A block of free-form text. If it spans multiple lines, you MUST populate the 'line_boxes' array.
+-   **table:** Structured data in rows and columns. Populate the 'table_data' object.
+-   **logo / figure:** For visual elements like logos or images, set the type accordingly and provide a detailed description of the visual content in the 'value' field.
+-   **marginalia:** Text outside the main content block, like page numbers or headers/footers.
+-   **attestation:** Signature blocks or electronic signature confirmations.
+
+**Failure Condition:**
+- If an image is of such low quality that OCR is impossible or produces nonsensical text, you MUST return an empty 'extracted_elements' array.
+
+The output must be a single, valid JSON object that strictly adheres to the provided schema, with no additional text or explanations.`;
+}
+
+export interface ExtractionOptions {
+  model: string;
+  ocrThreshold: number;
+  // Extra instructions appended to the prompt, e.g. for chunked PDFs
+  pageNote?: string;
+}
+
+export type GenerationKind = 'extraction' | 'schema_proposal';
+
+export interface GenerationRequest {
+  kind: GenerationKind;
+  model: string;
+  parts: any[];
+  responseSchema: Schema;
+}
+
+/**
+ * Builds the model request for an extraction, using the user-defined schema
+ * if there is one and the generic `extracted_elements` schema otherwise.
+ */
+export function buildExtractionRequest(
+  documentParts: any[],
+  userSchema: UserSchema | null,
+  options: ExtractionOptions,
+): GenerationRequest {
+  const prompt = userSchema
+    ? buildSchemaPrompt(userSchema, options.ocrThreshold)
+    : buildExtractionPrompt(options.ocrThreshold);
+
+  return {
+    kind: 'extraction',
+    model: options.model,
+    parts: [
+      {
+        text: options.pageNote ? `${prompt}\n\n${options.pageNote}` : prompt,
+      },
+      ...documentParts,
+    ],
+    responseSchema: userSchema
+      ? buildResponseSchema(userSchema)
+      : EXTRACTION_SCHEMA,
+  };
+}
+
+/**
+ * Maps a parsed model response onto the element list. For user-defined
+ * schemas the keyed result is mapped onto elements.
+ */
+export function responseToElements(
+  parsedResult: any,
+  userSchema: UserSchema | null,
+): unknown {
+  if (userSchema) {
+    return userResultToElements(userSchema, parsedResult || {});
+  }
+  return parsedResult?.extracted_elements ?? [];
+}
@@ -0,0 +1,190 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {
+  ExtractedElement,
+  elementToText,
+  getElementBoxes,
+} from './elements';
+import { EditHistory, traceOrigins } from './history';
+
+// --- Reviewer Feedback ---
+
+export type FeedbackLabel =
+  | 'correct'
+  | 'wrong_box'
+  | 'wrong_value'
+  | 'wrong_type'
+  | 'missing';
+
+// The labels a reviewer can give an extracted element. 'missing' is recorded
+// automatically for elements the reviewer adds.
+export const ELEMENT_FEEDBACK_LABELS: {
+  label: Exclude<FeedbackLabel, 'missing'>;
+  text: string;
+}[] = [
+  { label: 'correct', text: 'Correct' },
+  { label: 'wrong_box', text: 'Wrong box' },
+  { label: 'wrong_value', text: 'Wrong value' },
+  { label: 'wrong_type', text: 'Wrong type' },
+];
+
+export interface ElementFeedback {
+  // The element as it was when rated
+  element: ExtractedElement;
+  label: Exclude<FeedbackLabel, 'missing'>;
+  createdAt: number;
+}
+
+export interface DocumentFeedback {
+  elements: ElementFeedback[];
+  // The overall rating from the thumbs buttons
+  rating: 'good' | 'bad' | null;
+}
+
+export function createDocumentFeedback(): DocumentFeedback {
+  return { elements: [], rating: null };
+}
+
+export function getElementFeedback(
+  feedback: DocumentFeedback,
+  element: ExtractedElement,
+) {
+  return feedback.elements.find((entry) => entry.element === element)?.label;
+}
+
+// Sets (or with null, clears) the rating of an element.
+export function setElementFeedback(
+  feedback: DocumentFeedback,
+  element: ExtractedElement,
+  label: ElementFeedback['label'] | null,
+) {
+  feedback.elements = feedback.elements.filter(
+    (entry) => entry.element !== element,
+  );
+  if (label) {
+    feedback.elements.push({ element, label, createdAt: Date.now() });
+  }
+}
+
+// --- JSONL Dataset ---
+
+export interface FeedbackSource {
+  fileName: string;
+  elements: ExtractedElement[];
+  history: EditHistory;
+  feedback: DocumentFeedback;
+}
+
+type ElementChange = 'type' | 'label' | 'value' | 'box';
+
+export type FeedbackRecord =
+  | {
+      kind: 'rating';
+      document: string;
+      label: ElementFeedback['label'];
+      element: ExtractedElement;
+      created_at: string;
+    }
+  | {
+      kind: 'correction';
+      document: string;
+      // What the reviewer changed, as feedback labels
+      labels: FeedbackLabel[];
+      changes: ElementChange[];
+      before: ExtractedElement;
+      after: ExtractedElement;
+    }
+  | { kind: 'missing'; document: string; after: ExtractedElement }
+  | { kind: 'deleted'; document: string; before: ExtractedElement }
+  | { kind: 'document_rating'; document: string; rating: 'good' | 'bad' };
+
+// Strips the local edited marker so records compare like model output.
+function clean(element: ExtractedElement): ExtractedElement {
+  const { edited, ...rest } = element;
+  return rest as ExtractedElement;
+}
+
+function getChanges(before: ExtractedElement, after: ExtractedElement) {
+  const changes: ElementChange[] = [];
+  if (before.type !== after.type) changes.push('type');
+  if ((before.label || '') !== (after.label || '')) changes.push('label');
+  if (elementToText(before) !== elementToText(after)) changes.push('value');
+  if (
+    before.page !== after.page ||
+    JSON.stringify(getElementBoxes(before)) !==
+      JSON.stringify(getElementBoxes(after))
+  ) {
+    changes.push('box');
+  }
+  return changes;
+}
+
+/**
+ * Builds the feedback dataset for one document: explicit ratings, plus
+ * before/after pairs for every element the reviewer corrected, added or
+ * deleted, derived from the edit history against the original model output.
+ */
+export function buildFeedbackRecords(source: FeedbackSource) {
+  const document = source.fileName;
+  const records: FeedbackRecord[] = [];
+
+  if (source.feedback.rating) {
+    records.push({
+      kind: 'document_rating',
+      document,
+      rating: source.feedback.rating,
+    });
+  }
+
+  source.feedback.elements.forEach((entry) => {
+    records.push({
+      kind: 'rating',
+      document,
+      label: entry.label,
+      element: clean(entry.element),
+      created_at: new Date(entry.createdAt).toISOString(),
+    });
+  });
+
+  const { originals, origins } = traceOrigins(source.history, source.elements);
+  const kept = new Set<ExtractedElement>();
+  source.elements.forEach((element) => {
+    const original = origins.get(element);
+    if (!original) {
+      records.push({ kind: 'missing', document, after: clean(element) });
+      return;
+    }
+    kept.add(original);
+    if (original === element) return;
+
+    const changes = getChanges(original, element);
+    if (changes.length === 0) return;
+    const labels: FeedbackLabel[] = [];
+    if (changes.includes('box')) labels.push('wrong_box');
+    if (changes.includes('value') || changes.includes('label')) {
+      labels.push('wrong_value');
+    }
+    if (changes.includes('type')) labels.push('wrong_type');
+    records.push({
+      kind: 'correction',
+      document,
+      labels,
+      changes,
+      before: clean(original),
+      after: clean(element),
+    });
+  });
+
+  originals.forEach((original) => {
+    if (!kept.has(original)) {
+      records.push({ kind: 'deleted', document, before: clean(original) });
+    }
+  });
+  return records;
+}
+
+export function toJsonl(records: FeedbackRecord[]) {
+  return records.map((record) => JSON.stringify(record)).join('\n') + '\n';
+}
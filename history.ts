@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { ExtractedElement } from './elements';
+
+// --- Edit History (Undo / Redo) ---
+
+// Older entries are dropped once a document's history grows past this.
+export const MAX_HISTORY_ENTRIES = 200;
+
+/**
+ * One change to the element list, in the style of Array.prototype.splice.
+ * Elements are never mutated once they are in the list, so an edit replaces
+ * the element with an edited copy and the history can hold on to both.
+ */
+export interface ElementSplice {
+  index: number;
+  removed: ExtractedElement[];
+  inserted: ExtractedElement[];
+}
+
+export interface HistoryEntry {
+  label: string;
+  splices: ElementSplice[];
+}
+
+export interface EditHistory {
+  entries: HistoryEntry[];
+  // The number of entries currently applied; entries past it can be redone.
+  position: number;
+}
+
+export function createEditHistory(): EditHistory {
+  return { entries: [], position: 0 };
+}
+
+function applyEntry(elements: ExtractedElement[], entry: HistoryEntry) {
+  entry.splices.forEach(({ index, removed, inserted }) => {
+    elements.splice(index, removed.length, ...inserted);
+  });
+}
+
+function revertEntry(elements: ExtractedElement[], entry: HistoryEntry) {
+  [...entry.splices].reverse().forEach(({ index, removed, inserted }) => {
+    elements.splice(index, inserted.length, ...removed);
+  });
+}
+
+/**
+ * Applies an edit to `elements` (in place) and records it, discarding any
+ * entries that were undone before.
+ */
+export function performEdit(
+  history: EditHistory,
+  elements: ExtractedElement[],
+  entry: HistoryEntry,
+) {
+  applyEntry(elements, entry);
+  history.entries = [...history.entries.slice(0, history.position), entry];
+  if (history.entries.length > MAX_HISTORY_ENTRIES) {
+    history.entries = history.entries.slice(-MAX_HISTORY_ENTRIES);
+  }
+  history.position = history.entries.length;
+}
+
+export function undoEdit(history: EditHistory, elements: ExtractedElement[]) {
+  if (history.position === 0) return null;
+  const entry = history.entries[--history.position];
+  revertEntry(elements, entry);
+  return entry;
+}
+
+export function redoEdit(history: EditHistory, elements: ExtractedElement[]) {
+  if (history.position >= history.entries.length) return null;
+  const entry = history.entries[history.position++];
+  applyEntry(elements, entry);
+  return entry;
+}
+
+// True if the entry only swapped elements one for one, e.g. a value edit.
+export function isReplacement(entry: HistoryEntry) {
+  return entry.splices.every(
+    (splice) => splice.removed.length === 1 && splice.inserted.length === 1,
+  );
+}
+
+/**
+ * The elements as the model returned them, rebuilt by reverting every
+ * applied entry on a copy of `elements`.
+ */
+export function getOriginalElements(
+  history: EditHistory,
+  elements: ExtractedElement[],
+) {
+  const originals = [...elements];
+  history.entries
+    .slice(0, history.position)
+    .reverse()
+    .forEach((entry) => revertEntry(originals, entry));
+  return originals;
+}
+
+/**
+ * Maps every element that derives from model output (through one or more
+ * edits) to the original element. Elements added or regrouped by the
+ * reviewer have no origin.
+ */
+export function traceOrigins(
+  history: EditHistory,
+  elements: ExtractedElement[],
+) {
+  const originals = getOriginalElements(history, elements);
+  const origins = new Map<ExtractedElement, ExtractedElement>(
+    originals.map((element) => [element, element]),
+  );
+  history.entries.slice(0, history.position).forEach((entry) => {
+    entry.splices.forEach(({ removed, inserted }) => {
+      if (
+        removed.length === 1 &&
+        inserted.length === 1 &&
+        origins.has(removed[0])
+      ) {
+        origins.set(inserted[0], origins.get(removed[0]));
+      }
+    });
+  });
+  return { originals, origins };
+}
@@ -2,14 +2,180 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
  */
-import { GoogleGenAI, Type } from '@google/genai';
+import {
+  ExtractionProvider,
+  ResponseFixtures,
+  createFixtureProvider,
+  createServerProvider,
+  isServerStatus,
+  withRecording,
+} from './providers';
+import recordedResponses from './fixtures/recorded-responses.json';
+import {
+  DEFAULT_SCHEMA_ID,
+  MAX_SCHEMA_DEPTH,
+  SCHEMA_FIELD_TYPES,
+  SCHEMA_PROPOSAL_SCHEMA,
+  SMART_SUGGESTION_PROMPT,
+  SchemaField,
+  SchemaFieldType,
+  UserSchema,
+  buildPromptToSchemaPrompt,
+  buildResponseSchema,
+  buildSchemaPrompt,
+  createSchemaField,
+  createUserSchema,
+  elementsToUserResult,
+  findSchemaElementIndex,
+  isContainerType,
+  loadUserSchemas,
+  proposalToUserSchema,
+  saveUserSchemas,
+  toFieldKey,
+  userResultToElements,
+} from './schemas';
+import {
+  BatchDocument,
+  SUPPORTED_FILE_TYPES,
+  collectDroppedFiles,
+  createBatchDocument,
+  createExtractionQueue,
+  isInProgress,
+  readFileAsBase64,
+} from './batch';
+import {
+  CHUNK_PAGE_THRESHOLD,
+  buildChunkNote,
+  mergeChunkResults,
+  offsetChunkElements,
+  planChunks,
+  renderChunkParts,
+} from './chunking';
+import {
+  getElementIssues,
+  repairBox,
+  setElementIssues,
+  validateElements,
+} from './validation';
+import {
+  BoundingBox,
+  ELEMENT_TYPES,
+  ElementType,
+  ExtractedElement,
+  PiiCategory,
+  ValueElementType,
+  HIGH_CONFIDENCE,
+  convertElementType,
+  getConfidenceLevel,
+  getElementBoxes,
+  getElementConfidence,
+  getElementValue,
+  getReadingOrderIndex,
+  getReviewQueue,
+  mergeIntoFieldGroup,
+} from './elements';
+import {
+  ElementSplice,
+  HistoryEntry,
+  createEditHistory,
+  isReplacement,
+  performEdit,
+  redoEdit,
+  undoEdit,
+} from './history';
+import {
+  StoredDocument,
+  deleteStoredDocument,
+  loadSettings,
+  loadStoredDocuments,
+  pruneStoredDocuments,
+  restoreDocument,
+  saveDocument,
+  saveDocumentFile,
+  saveSettings,
+} from './sessions';
+import {
+  MIN_REGION_SIZE,
+  PageRegion,
+  REGION_NOTE,
+  cropPageRegion,
+  regionToPageElements,
+} from './regions';
+import {
+  ELEMENT_FEEDBACK_LABELS,
+  buildFeedbackRecords,
+  createDocumentFeedback,
+  getElementFeedback,
+  setElementFeedback,
+  toJsonl,
+} from './feedback';
+import { createWorkbook, elementsToSheets } from './xlsx';
+import { createZip } from './zip';
+import {
+  INTERCHANGE_FORMAT_NAMES,
+  InterchangeFormat,
+  batchExportFileNames,
+  LABEL_STUDIO_CONFIG,
+  PageImage,
+  parseAnnotations,
+  toAlto,
+  toCoco,
+  toHocr,
+  toLabelStudio,
+} from './interchange';
+import {
+  FigureImage,
+  reconstructDocument,
+  toDocx,
+  toHtml,
+  toMarkdown,
+} from './reconstruction';
+import {
+  PII_CATEGORY_NAMES,
+  getElementPii,
+  getFieldPii,
+  getRedactionRegions,
+  redactElements,
+} from './pii';
+import {
+  MAX_ZOOM,
+  MIN_ZOOM,
+  ZOOM_STEP,
+  ZoomMode,
+  capRenderScale,
+  clampZoom,
+  getFitZoom,
+  getRenderScale,
+  getWheelZoomFactor,
+} from './zoom';
+import {
+  EXPORT_RENDER_SCALE,
+  NEARBY_PAGES_MARGIN,
+  THUMBNAIL_WIDTH,
+  createCanvasPool,
+  createPdfDocumentTracker,
+  renderPdfPage,
+} from './pages';
 
 // Fix: Declare pdfjsLib to resolve "Cannot find name 'pdfjsLib'" error.
 declare var pdfjsLib: any;
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Responses recorded from the live backend during this session are added to
+// the bundled fixtures, so they can be replayed offline right away.
+const responseFixtures: ResponseFixtures = {
+  recordings: [...(recordedResponses as ResponseFixtures).recordings],
+  fallbacks: (recordedResponses as ResponseFixtures).fallbacks,
+};
+const providers: ExtractionProvider[] = [
+  withRecording(createServerProvider(), responseFixtures.recordings),
+  createFixtureProvider(responseFixtures),
+];
 
 const fileUpload = document.getElementById('file-upload') as HTMLInputElement;
+const folderUpload = document.getElementById(
+  'folder-upload',
+) as HTMLInputElement;
+const uploadContainer = document.querySelector('.upload-container');
 const fileNameSpan = document.getElementById('file-name');
 const uploadError = document.getElementById('upload-error') as HTMLSpanElement;
 const extractButton = document.getElementById(
@@ -18,7 +184,22 @@ const extractButton = document.getElementById(
 const markdownResultsContainer = document.getElementById('markdown-results');
 const jsonResultsContainer = document.getElementById('json-results');
 const loadingSpinner = document.getElementById('loading-spinner');
+const loadingMessage = document.getElementById('loading-message');
 const previewContainer = document.getElementById('preview-container');
+const thumbnailStrip = document.getElementById('thumbnail-strip');
+const zoomOutButton = document.getElementById(
+  'zoom-out-button',
+) as HTMLButtonElement;
+const zoomInButton = document.getElementById(
+  'zoom-in-button',
+) as HTMLButtonElement;
+const zoomLevelSpan = document.getElementById('zoom-level');
+const fitWidthButton = document.getElementById(
+  'fit-width-button',
+) as HTMLButtonElement;
+const fitPageButton = document.getElementById(
+  'fit-page-button',
+) as HTMLButtonElement;
 const tabsContainer = document.querySelector('.tabs');
 const tabButtons = document.querySelectorAll('.tab-button');
 const tabPanels = document.querySelectorAll('.tab-panel');
@@ -27,11 +208,49 @@ const exportButton = document.getElementById(
 ) as HTMLButtonElement;
 const exportDropdown = document.getElementById('export-dropdown');
 const exportCsvButton = document.getElementById('export-csv');
+const exportJsonButton = document.getElementById('export-json');
 const exportTxtButton = document.getElementById('export-txt');
+const exportXlsxButton = document.getElementById('export-xlsx');
+const exportMarkdownButton = document.getElementById('export-md');
+const exportHtmlButton = document.getElementById('export-html');
+const exportDocxButton = document.getElementById('export-docx');
+const exportSearchablePdfButton = document.getElementById(
+  'export-searchable-pdf',
+);
+const exportReviewPdfButton = document.getElementById('export-review-pdf');
+const exportCocoButton = document.getElementById('export-coco');
+const exportLabelStudioButton = document.getElementById('export-label-studio');
+const exportHocrButton = document.getElementById('export-hocr');
+const exportAltoButton = document.getElementById('export-alto');
 const ocrSlider = document.getElementById(
   'ocr-threshold-slider',
 ) as HTMLInputElement;
 const ocrValueSpan = document.getElementById('ocr-threshold-value');
+const providerSelect = document.getElementById(
+  'provider-select',
+) as HTMLSelectElement;
+const modelSelect = document.getElementById(
+  'model-select',
+) as HTMLSelectElement;
+const downloadRecordingsLink = document.getElementById('download-recordings');
+const importAnnotationsLink = document.getElementById('import-annotations');
+const annotationsUpload = document.getElementById(
+  'annotations-upload',
+) as HTMLInputElement;
+const reviewToolbar = document.getElementById('review-toolbar');
+const drawRegionButton = document.getElementById(
+  'draw-region-button',
+) as HTMLButtonElement;
+const mergeButton = document.getElementById('merge-button') as HTMLButtonElement;
+const reviewQueueButton = document.getElementById('review-queue-button');
+const redactButton = document.getElementById('redact-button');
+const reviewQueuePanel = document.getElementById('review-queue-panel');
+const reviewStatus = document.getElementById('review-status');
+const undoButton = document.getElementById('undo-button') as HTMLButtonElement;
+const redoButton = document.getElementById('redo-button') as HTMLButtonElement;
+const historyPanel = document.getElementById('history-panel');
+const historyList = document.getElementById('history-list');
+const regionPanel = document.getElementById('region-panel');
 const feedbackContainer = document.getElementById('feedback-container');
 const feedbackGoodButton = document.getElementById(
   'feedback-good',
@@ -40,6 +259,23 @@ const feedbackBadButton = document.getElementById(
   'feedback-bad',
 ) as HTMLButtonElement;
 const feedbackThanksSpan = document.getElementById('feedback-thanks');
+const recentSidebar = document.getElementById('recent-sidebar');
+const recentList = document.getElementById('recent-list');
+const batchContainer = document.getElementById('batch-container');
+const batchList = document.getElementById('batch-list');
+const batchSummary = document.getElementById('batch-summary');
+const batchConcurrencyInput = document.getElementById(
+  'batch-concurrency',
+) as HTMLInputElement;
+const batchExtractButton = document.getElementById(
+  'batch-extract-button',
+) as HTMLButtonElement;
+const batchClearButton = document.getElementById(
+  'batch-clear-button',
+) as HTMLButtonElement;
+const exportBatchJsonButton = document.getElementById('export-batch-json');
+const exportBatchCsvButton = document.getElementById('export-batch-csv');
+const exportFeedbackButton = document.getElementById('export-feedback');
 
 let file: File | null = null;
 let fileData: {
@@ -47,298 +283,826 @@ let fileData: {
   data: string;
 } | null = null;
 let pageDimensions: { width: number; height: number }[] = [];
-let extractedData: any[] = [];
+// The pdf.js document of the active file, reused for chunked extraction
+let pdfDocument: any = null;
+let extractedData: ExtractedElement[] = [];
 let isThrottled = false;
 let lastHoveredElementIndex = -1;
-// State for the bounding box editor
+// State for the element editor (boxes and content). The element itself is
+// left untouched until the edit is saved, so cancelling just drops the draft.
 let currentlyEditing: {
   index: number;
-  originalElement: any; // A deep copy for cancellation
+  draft: ExtractedElement; // A deep copy holding the edited boxes and content
 } | null = null;
+// Draw-region mode, and the drawn region waiting to become an element
+let isDrawingRegion = false;
+let pendingRegion: PageRegion | null = null;
+// The low-confidence elements being stepped through, and the current one
+let reviewQueue: { elements: ExtractedElement[]; position: number } | null =
+  null;
+// Personal data is blacked out in the preview and masked in exports
+let redactionMode = false;
+// Preview zoom (see zoom.ts), kept across documents
+let zoom = 1;
+let zoomMode: ZoomMode = 'fit-width';
+// Result cards ticked for merging into a field group
+const selectedElements = new Set<ExtractedElement>();
+// User-defined schemas and the one selected for the next extraction
+let userSchemas: UserSchema[] = loadUserSchemas();
+let activeSchemaId = DEFAULT_SCHEMA_ID;
+// The user-defined schema the current results were extracted with, if any
+let resultSchema: UserSchema | null = null;
+// All uploaded documents; the globals above mirror the active one.
+let documents: BatchDocument[] = [];
+let activeDocument: BatchDocument | null = null;
+// Incremented on every preview render so stale renders can stop early.
+let previewGeneration = 0;
+// Lazy page rendering (see pages.ts): the PDF pages in or near the view, and
+// the scale they are rendered at, which follows the zoom once it settles
+const nearbyPages = new Set<PreviewPage>();
+let pageRenderScale = 1;
+let pageRenderTimer: ReturnType<typeof setTimeout> | null = null;
+let pageObserver: IntersectionObserver | null = null;
+let isRenderingPages = false;
+let renderPagesAgain = false;
+const canvasPool = createCanvasPool(4);
+const pdfDocuments = createPdfDocumentTracker();
+// Thumbnails are rendered one at a time, as the strip scrolls to them
+let thumbnailObserver: IntersectionObserver | null = null;
+let thumbnailQueue = Promise.resolve();
+
+const extractionQueue = createExtractionQueue({
+  concurrency: parseInt(batchConcurrencyInput.value, 10) || 1,
+  maxRetries: 2,
+  worker: extractBatchDocument,
+  onUpdate: handleDocumentUpdate,
+});
 
-// The schema is now a constant to be used for both the API call and the UI display.
-const EXTRACTION_SCHEMA = {
-  type: Type.OBJECT,
-  properties: {
-    extracted_elements: {
-      type: Type.ARRAY,
-      description: 'An array of all elements extracted from the document.',
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          type: {
-            type: Type.STRING,
-            description:
-              "The type of element. Must be one of: 'field', 'field_group', 'table', 'paragraph', 'checkbox', 'logo', 'figure', 'marginalia', 'attestation'.",
-          },
-          label: {
-            type: Type.STRING,
-            description:
-              'The label or key for a field, or a title for a table/paragraph.',
-          },
-          value: {
-            type: Type.STRING,
-            description:
-              "The extracted text value or a description for visual elements. Not used for 'table' or 'field_group' types.",
-          },
-          page: {
-            type: Type.INTEGER,
-            description:
-              'The page number where the element was found (starting from 1).',
-          },
-          bounding_box: {
-            type: Type.OBJECT,
-            properties: {
-              left: { type: Type.NUMBER },
-              top: { type: Type.NUMBER },
-              right: { type: Type.NUMBER },
-              bottom: { type: Type.NUMBER },
-            },
-            description:
-              "Normalized coordinates of the element's bounding box, with {left, top, right, bottom} properties. The origin (0,0) is the top-left corner of the page. For a 'field_group', this should encompass all fields in the group.",
-          },
-          line_boxes: {
-            type: Type.ARRAY,
-            description:
-              'For multi-line text elements, an array of bounding boxes for each individual text line to allow for a tighter visual fit. Each box MUST be in the {left, top, right, bottom} format.',
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                left: { type: Type.NUMBER },
-                top: { type: Type.NUMBER },
-                right: { type: Type.NUMBER },
-                bottom: { type: Type.NUMBER },
-              },
-            },
-          },
-          table_data: {
-            type: Type.OBJECT,
-            description:
-              "Contains header and row data. Only present if type is 'table'.",
-            properties: {
-              headers: {
-                type: Type.ARRAY,
-                items: { type: Type.STRING },
-                description: 'The column headers of the table.',
-              },
-              rows: {
-                type: Type.ARRAY,
-                items: {
-                  type: Type.ARRAY,
-                  items: { type: Type.STRING },
-                  description:
-                    "An array of strings representing a single row's cells.",
-                },
-                description: 'The data rows of the table.',
-              },
-            },
-          },
-          fields: {
-            type: Type.ARRAY,
-            description:
-              "An array of individual fields. Only present if type is 'field_group'.",
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                label: { type: Type.STRING },
-                value: { type: Type.STRING },
-              },
-            },
-          },
-        },
-      },
-    },
-  },
-};
 
 // --- Core Extraction Logic ---
-async function runExtraction() {
-  if (!file || !fileData) return;
+
+/**
+ * Sends document content to the selected extraction provider and returns the
+ * validated elements plus document-level warnings. `pageNote` tells the model
+ * which pages it is looking at when a PDF is chunked.
+ */
+async function extractDocument(
+  documentParts: any[],
+  userSchema: UserSchema | null,
+  ocrThreshold: number,
+  pageCount: number,
+  pageNote?: string,
+) {
+  const result = await getActiveProvider().extract(documentParts, userSchema, {
+    model: modelSelect.value,
+    ocrThreshold,
+    pageNote,
+  });
+  const { elements, warnings } = validateElements(result.elements, {
+    pageCount,
+  });
+  if (result.truncated) {
+    warnings.unshift(
+      `The model's response was cut off; ${elements.length} complete element(s) were salvaged.`,
+    );
+  }
+  return { elements, warnings };
+}
+
+/**
+ * Queue worker: extracts a single batch document and stores the results on it.
+ * Long PDFs are extracted chunk by chunk and merged.
+ */
+async function extractBatchDocument(doc: BatchDocument) {
+  const isActive = doc === activeDocument && fileData;
+  const data = isActive
+    ? fileData
+    : { mimeType: doc.file.type, data: await readFileAsBase64(doc.file) };
+  const userSchema = getActiveUserSchema();
+  const ocrThreshold = parseInt(ocrSlider.value, 10);
+
+  let pdf: any = null;
+  if (data.mimeType === 'application/pdf') {
+    pdf =
+      isActive && pdfDocument
+        ? pdfDocument
+        : await pdfjsLib.getDocument({ data: atob(data.data) }).promise;
+  }
+
+  // Documents other than the active one are opened for extraction only, and
+  // closed again once it is done.
+  const opened = pdf && pdf !== pdfDocument;
+  if (!opened) pdfDocuments.hold(pdf);
+  try {
+    if (!pdf || pdf.numPages <= CHUNK_PAGE_THRESHOLD) {
+      const { elements, warnings } = await extractDocument(
+        [{ inlineData: data }],
+        userSchema,
+        ocrThreshold,
+        pdf ? pdf.numPages : 1,
+      );
+      doc.extractedData = elements;
+      doc.history = createEditHistory();
+      doc.feedback = createDocumentFeedback();
+      doc.warnings = warnings;
+      doc.resultSchema = userSchema;
+      return;
+    }
+
+    const chunks = planChunks(pdf.numPages);
+    const chunkResults: ExtractedElement[][] = [];
+    const warnings: string[] = [];
+    try {
+      for (const chunk of chunks) {
+        doc.progress = { completed: chunkResults.length, total: chunks.length };
+        handleDocumentUpdate(doc);
+
+        const parts = await renderChunkParts(pdf, chunk);
+        const result = await extractDocument(
+          parts,
+          userSchema,
+          ocrThreshold,
+          chunk.end - chunk.start + 1,
+          buildChunkNote(chunk, pdf.numPages),
+        );
+        chunkResults.push(offsetChunkElements(result.elements, chunk));
+        warnings.push(
+          ...result.warnings.map(
+            (warning) => `Pages ${chunk.start}-${chunk.end}: ${warning}`,
+          ),
+        );
+      }
+    } finally {
+      doc.progress = null;
+    }
+
+    doc.extractedData = mergeChunkResults(chunkResults, Boolean(userSchema));
+    doc.history = createEditHistory();
+    doc.feedback = createDocumentFeedback();
+    doc.warnings = warnings;
+    doc.resultSchema = userSchema;
+  } finally {
+    if (opened) {
+      pdf.destroy();
+    } else {
+      pdfDocuments.release(pdf);
+    }
+  }
+}
+
+function runExtraction() {
+  if (!activeDocument || !fileData) return;
+  // Re-extracting replaces the results, and with them any corrections.
+  const edits = activeDocument.history?.position ?? 0;
+  if (
+    activeDocument.status === 'done' &&
+    edits > 0 &&
+    !window.confirm(
+      `Re-extracting replaces the current results and discards ${edits} edit(s). Continue?`,
+    )
+  ) {
+    return;
+  }
 
   // Cancel any ongoing edit before running a new extraction
   if (currentlyEditing) {
     exitEditMode(false);
   }
+  extractionQueue.enqueue([activeDocument]);
+}
+
+function handleDocumentUpdate(doc: BatchDocument) {
+  renderBatchList();
+  updateRecordingsLink();
+  if (doc === activeDocument) {
+    if (isInProgress(doc.status) && currentlyEditing) {
+      exitEditMode(false);
+    }
+    showDocumentResults(doc);
+  }
+  updateExportAvailability();
+  if (doc.status === 'done' || doc.status === 'failed') {
+    persistDocument(doc);
+  }
+}
 
-  loadingSpinner.classList.remove('hidden');
+// Icons of the error panels. They are the only markup the results panels
+// take as HTML; everything else is built as DOM nodes and text.
+const ERROR_ICON = `<svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 0 24 24" width="24px"><path d="M0 0h24v24H0V0z" fill="none"/><path d="M11 15h2v2h-2zm0-8h2v6h-2zm.99-5C6.47 2 2 6.48 2 12s4.47 10 9.99 10C17.52 22 22 17.52 22 12S17.52 2 11.99 2zM12 20c-4.42 0-8-3.58-8-8s3.58-8 8-8 8 3.58 8 8-3.58 8-8 8z"/></svg>`;
+const WARNING_ICON = `<svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 0 24 24" width="24px"><path d="M0 0h24v24H0V0z" fill="none"/><path d="M1 21h22L12 2 1 21zm12-3h-2v-2h2v2zm0-4h-2v-4h2v4z"/></svg>`;
+
+function createErrorPanel(icon: string, title: string, message: string) {
+  const panel = document.createElement('div');
+  panel.className = 'error-panel';
+  panel.innerHTML = icon;
+  const body = document.createElement('div');
+  const heading = document.createElement('strong');
+  heading.textContent = title;
+  const text = document.createElement('p');
+  text.textContent = message;
+  body.append(heading, text);
+  panel.appendChild(body);
+  return panel;
+}
+
+/**
+ * Shows the results (or the extraction state) of the active document in the
+ * Markdown and JSON tabs.
+ */
+function showDocumentResults(doc: BatchDocument) {
+  extractButton.textContent =
+    doc.status === 'done' ? 'Re-extract' : 'Extract Information';
+  // A lone document keeps the full-page spinner; in a batch the status is
+  // shown in the results panel so the other documents stay reachable.
+  loadingSpinner.classList.toggle(
+    'hidden',
+    !(isInProgress(doc.status) && documents.length === 1),
+  );
   clearResults();
   clearBoundingBoxes();
 
-  try {
-    const ocrThreshold = parseInt(ocrSlider.value, 10);
-    const prompt = `You are an Agentic Document Extraction system. Your primary goal is to perform a comprehensive analysis of the uploaded document and return structured, accurate data with intelligent grouping and precise visual traceability.
-
-**Core Instructions:**
-1.  **Analyze Document Type & OCR:** Detect if the document is a PDF or an image. For images, perform Optical Character Recognition (OCR) to read all text accurately before proceeding with extraction.
-2.  **OCR Confidence Threshold:** For image-based documents, you MUST only consider text recognized with a confidence level of ${ocrThreshold}% or higher. Discard any text below this threshold.
-3.  **Intelligent Grouping (Highest Priority):** You MUST actively identify and group logically related fields into a \`field_group\`. This is crucial for creating a clean, organized, and human-readable output. Examples of good grouping include:
-    -   Patient Information (Name, DOB, Age, etc.)
-    -   Provider Information (Name, Address, Phone, etc.)
-    -   An entire address block (street, city, state, zip).
-    Always prefer grouping over listing individual fields when a logical connection exists.
-4.  **Comprehensive Extraction:** You must extract ALL data from the document (meeting the confidence threshold). Leave nothing out.
-5.  **Sequential Ordering:** The elements in the final 'extracted_elements' array must be sorted to strictly follow the top-to-bottom reading order of the source document.
-6.  **Hyper-Precise Bounding Box Coordinates (CRITICAL):** For every element, you MUST provide coordinates in a **normalized {left, top, right, bottom} format**. This is the most critical part of your task. Precision is paramount.
-    - The origin (0,0) is the top-left corner of the page.
-    - \`left\`: The distance from the left edge of the page to the left edge of the box (0.0 to 1.0).
-    - \`top\`: The distance from the top edge of the page to the top edge of the box (0.0 to 1.0).
-    - \`right\`: The distance from the left edge of the page to the right edge of the box (0.0 to 1.0).
-    - \`bottom\`: The distance from the top edge of the page to the bottom edge of the box (0.0 to 1.0).
-    - Provide up to 5 decimal places for precision.
-7.  **Crucial Rules for Bounding Box Perfection:**
-    - **Pixel-Tight Fit:** The bounding box MUST be as tight as possible to the visible pixels of the text or element. There should be NO excessive padding or whitespace included inside the box.
-    - **Complete Enclosure:** Despite being tight, the box MUST completely encompass the entire logical element. Do not cut off parts of letters or symbols.
-    - **Handling Spaced/Fragmented Text (HIGH PRIORITY):** For text elements composed of multiple words with significant spacing between them (e.g., a "THANK YOU" sign spread across a page), you MUST treat it as a *single element*. The bounding box MUST start at the beginning of the first character of the first word (e.g., 'T') and end at the very end of the last character of the last word (e.g., 'U'), forming one single, all-encompassing rectangle.
-    - **Failure Condition Example:** For the text "First Name      John", creating one box for "First Name" and another for "John" is a failure if they represent a single logical field. You must identify it as a 'field' with label 'First Name' and value 'John' and create a bounding box that encloses BOTH parts.
-    - **DO NOT** create a bounding box around empty space. If an element's value is on a different part of the page from its label, the main \`bounding_box\` should cover both, and individual \`line_boxes\` can be used for the separate visual components.
-8.  **Granular Line Boxes for Tighter Fit:** For any element containing text that visibly spans multiple lines on the document (e.g., 'paragraph', long 'field' values), you MUST ALSO provide a 'line_boxes' array. Each item in this array should be a precise bounding box for a single line of text, also in the {left, top, right, bottom} format. This is crucial for creating a tight visual highlight.
-9.  **Element Categorization:** Classify each extracted element into one of the following types: 'field', 'field_group', 'table', 'paragraph', 'checkbox', 'logo', 'figure', 'marginalia', 'attestation'.
-
-**Type-Specific Instructions:**
--   **field_group:** This is the preferred way to organize data. Use it liberally for sets of logically related fields. The 'bounding_box' for a group MUST encompass all of its child fields. Provide a clear and descriptive 'label' for the group (e.g., "Patient Information").
--   **field:** A simple key-value pair. Use this ONLY for individual fields that do not logically belong to any larger group. If the 'value' spans multiple lines, populate the 'line_boxes' array.
--   **paragraph:** A block of free-form text. If it spans multiple lines, you MUST populate the 'line_boxes' array.
--   **table:** Structured data in rows and columns. Populate the 'table_data' object.
--   **logo / figure:** For visual elements like logos or images, set the type accordingly and provide a detailed description of the visual content in the 'value' field.
--   **marginalia:** Text outside the main content block, like page numbers or headers/footers.
--   **attestation:** Signature blocks or electronic signature confirmations.
-
-**Failure Condition:**
-- If an image is of such low quality that OCR is impossible or produces nonsensical text, you MUST return an empty 'extracted_elements' array.
-
-The output must be a single, valid JSON object that strictly adheres to the provided schema, with no additional text or explanations.`;
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: {
-        parts: [
-          {
-            text: prompt,
-          },
-          {
-            inlineData: fileData,
-          },
-        ],
-      },
-      config: {
-        responseMimeType: 'application/json',
-        responseSchema: EXTRACTION_SCHEMA,
-      },
-    });
-
-    const parsedResult = JSON.parse(response.text);
-    extractedData = parsedResult.extracted_elements || [];
-
-    // Add specific guidance for low-quality images that result in empty extraction.
-    if (extractedData.length === 0 && file?.type.startsWith('image/')) {
-      markdownResultsContainer.innerHTML = `
-        <div class="error-panel">
-          <svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 0 24 24" width="24px"><path d="M0 0h24v24H0V0z" fill="none"/><path d="M1 21h22L12 2 1 21zm12-3h-2v-2h2v2zm0-4h-2v-4h2v4z"/></svg>
-          <div>
-            <strong>OCR Quality Alert</strong>
-            <p>The text in the uploaded image could not be read clearly. For best results, please upload a higher-resolution image with good lighting and clear, typed text.</p>
-          </div>
-        </div>`;
-      displayJsonResults({
-        error: 'OCR_QUALITY_LOW',
-        message:
-          'The model returned no data, likely due to a low-quality source image.',
-      });
-      setActiveTab('markdown');
-      exportButton.disabled = true;
-      feedbackContainer?.classList.add('hidden');
-    } else {
-      // Original logic for successful extraction
-      displayMarkdownResults(extractedData);
-      displayJsonResults(parsedResult);
-      exportButton.disabled = extractedData.length === 0;
-      // Show feedback controls
-      if (feedbackContainer && extractedData.length > 0) {
-        feedbackContainer.classList.remove('hidden');
-        feedbackGoodButton.disabled = false;
-        feedbackBadButton.disabled = false;
-        feedbackThanksSpan.classList.add('hidden');
-      }
+  if (isInProgress(doc.status)) {
+    const message =
+      doc.status === 'queued'
+        ? 'Queued for extraction...'
+        : doc.progress
+          ? `Extracting chunk ${doc.progress.completed + 1} of ${
+              doc.progress.total
+            }... this may take a moment.`
+          : 'Extracting data... this may take a moment.';
+    loadingMessage.textContent = message;
+    if (documents.length > 1) {
+      const statusMessage = document.createElement('p');
+      statusMessage.className = 'batch-status-message';
+      statusMessage.textContent = message;
+      markdownResultsContainer.replaceChildren(statusMessage);
       setActiveTab('markdown');
     }
-  } catch (error) {
-    console.error('Error extracting data:', error);
-    markdownResultsContainer.innerHTML = `
-    <div class="error-panel">
-      <svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 0 24 24" width="24px"><path d="M0 0h24v24H0V0z" fill="none"/><path d="M11 15h2v2h-2zm0-8h2v6h-2zm.99-5C6.47 2 2 6.48 2 12s4.47 10 9.99 10C17.52 22 22 17.52 22 12S17.52 2 11.99 2zM12 20c-4.42 0-8-3.58-8-8s3.58-8 8-8 8 3.58 8 8-3.58 8-8 8z"/></svg>
-      <div>
-        <strong>Extraction Failed</strong>
-        <p>The model could not process the document. This can happen with complex layouts, handwritten text, or low-quality scans. Please try again with a clearer document.</p>
-      </div>
-    </div>`;
+    return;
+  }
+
+  if (doc.status === 'failed') {
+    markdownResultsContainer.replaceChildren(
+      createErrorPanel(
+        ERROR_ICON,
+        'Extraction Failed',
+        'The model could not process the document. This can happen with complex layouts, handwritten text, or low-quality scans. Please try again with a clearer document.',
+      ),
+    );
+    setActiveTab('markdown');
+    return;
+  }
+
+  if (doc.status !== 'done') return;
+
+  extractedData = doc.extractedData;
+  resultSchema = doc.resultSchema;
+  reviewToolbar.classList.remove('hidden');
+  renderHistory();
+
+  // Add specific guidance for low-quality images that result in empty extraction.
+  if (extractedData.length === 0 && doc.file.type.startsWith('image/')) {
+    markdownResultsContainer.replaceChildren(
+      createErrorPanel(
+        WARNING_ICON,
+        'OCR Quality Alert',
+        'The text in the uploaded image could not be read clearly. For best results, please upload a higher-resolution image with good lighting and clear, typed text.',
+      ),
+    );
+    displayJsonResults({
+      error: 'OCR_QUALITY_LOW',
+      message:
+        'The model returned no data, likely due to a low-quality source image.',
+    });
     setActiveTab('markdown');
-    extractedData = [];
     exportButton.disabled = true;
     feedbackContainer?.classList.add('hidden');
-  } finally {
-    loadingSpinner.classList.add('hidden');
+  } else {
+    // Original logic for successful extraction
+    displayMarkdownResults(extractedData, doc.warnings);
+    refreshJsonResults();
+    drawRedactions();
+    exportButton.disabled = extractedData.length === 0;
+    // Show feedback controls
+    if (feedbackContainer && extractedData.length > 0) {
+      const rated = Boolean(doc.feedback.rating);
+      feedbackContainer.classList.remove('hidden');
+      feedbackGoodButton.disabled = rated;
+      feedbackBadButton.disabled = rated;
+      feedbackThanksSpan.classList.toggle('hidden', !rated);
+    }
+    setActiveTab('markdown');
   }
 }
 
-// --- Event Listeners ---
+// --- Batch Functions ---
 
-fileUpload.addEventListener('change', async (event) => {
-  const target = event.target as HTMLInputElement;
-  if (target.files && target.files[0]) {
-    const selectedFile = target.files[0];
-    const supportedTypes = [
-      'application/pdf',
-      'image/jpeg',
-      'image/png',
-      'image/gif',
-      'image/webp',
-    ];
-
-    if (!supportedTypes.includes(selectedFile.type)) {
-      uploadError.textContent = `Unsupported file type: '${selectedFile.type}'. Please upload a PDF, JPEG, PNG, GIF, or WebP.`;
-      uploadError.classList.remove('hidden');
-      // Reset state
-      fileUpload.value = '';
-      fileNameSpan.textContent = 'No file chosen';
-      extractButton.disabled = true;
-      ocrSlider.disabled = true;
-      file = null;
-      return;
+// Extraction results or annotations saved as JSON.
+function isResultsFile(f: File) {
+  return f.type === 'application/json' || /\.json$/i.test(f.name);
+}
+
+/**
+ * Adds files to the batch, skipping unsupported types, and activates the first
+ * newly added document. Results files chosen alongside are loaded into their
+ * documents instead of extracting them; chosen alone, into the active one.
+ */
+async function addFilesToBatch(files: File[]) {
+  const resultFiles = files.filter(isResultsFile);
+  const documentFiles = files.filter((f) => !isResultsFile(f));
+  const supported = documentFiles.filter((f) =>
+    SUPPORTED_FILE_TYPES.includes(f.type),
+  );
+  const skipped = documentFiles.filter(
+    (f) => !SUPPORTED_FILE_TYPES.includes(f.type),
+  );
+
+  const notices: string[] = [];
+  if (skipped.length > 0) {
+    notices.push(
+      skipped.length === 1
+        ? `Unsupported file type: '${skipped[0].type}'. Please upload a PDF, JPEG, PNG, GIF, or WebP.`
+        : `Skipped ${skipped.length} unsupported files (e.g. '${skipped[0].name}'). Please upload PDFs, JPEGs, PNGs, GIFs, or WebPs.`,
+    );
+  }
+  const showNotices = () => {
+    if (notices.length === 0) return;
+    uploadError.textContent = notices.join(' ');
+    uploadError.classList.remove('hidden');
+  };
+
+  if (supported.length === 0) {
+    if (activeDocument && resultFiles.length > 0) {
+      notices.push(...(await importResultFiles([activeDocument], resultFiles)));
+    } else if (resultFiles.length > 0) {
+      notices.push('Choose results files together with their documents.');
     }
+    showNotices();
+    return;
+  }
 
-    uploadError.classList.add('hidden'); // Hide error if file is valid
-    file = selectedFile;
-    fileNameSpan.textContent = file.name;
-    extractButton.disabled = false;
-    ocrSlider.disabled = false;
+  const newDocuments = supported.map(createBatchDocument);
+  documents.push(...newDocuments);
+  renderBatchList();
+  storeNewDocuments(newDocuments);
+  if (resultFiles.length > 0) {
+    notices.push(...(await importResultFiles(newDocuments, resultFiles)));
+  }
+  await activateDocument(newDocuments[0]);
+  // activateDocument clears upload errors; keep the notices.
+  showNotices();
+}
+
+/**
+ * Pairs results files with documents and loads them. A results file belongs
+ * to the document it is named after ("invoice.pdf.json" or "invoice.json"),
+ * a batch JSON export to every document it lists, and a lone results file
+ * chosen with a lone document to that document. Returns the problems to
+ * report.
+ */
+async function importResultFiles(docs: BatchDocument[], resultFiles: File[]) {
+  const candidates = await Promise.all(
+    resultFiles.map(async (resultsFile) => {
+      const text = await resultsFile.text();
+      return { resultsFile, text, listed: batchExportFileNames(text) };
+    }),
+  );
+  const used = new Set<File>();
+  const problems: string[] = [];
+
+  for (const doc of docs) {
+    const name = doc.file.name;
+    const namedAfter = [`${name}.json`, `${name.replace(/\.[^.]+$/, '')}.json`];
+    const match =
+      candidates.find(({ resultsFile }) =>
+        namedAfter.includes(resultsFile.name),
+      ) ||
+      candidates.find(({ listed }) => listed?.includes(name)) ||
+      (docs.length === 1 && candidates.length === 1 && !candidates[0].listed
+        ? candidates[0]
+        : undefined);
+    if (!match) continue;
+    used.add(match.resultsFile);
     try {
-      await renderPreview(file);
-    } catch (err) {
-      // Error is already displayed by renderPreview's internal catch blocks.
-      // We just need to log it and prevent further execution.
-      console.error('Render preview failed:', err);
+      await importResults(doc, match.text, match.resultsFile.name);
+    } catch (error) {
+      console.error('Error importing results:', error);
+      problems.push(
+        `'${match.resultsFile.name}' could not be loaded into '${name}': ${
+          error instanceof Error ? error.message : error
+        }`,
+      );
     }
-  } else {
+  }
+
+  candidates
+    .filter(({ resultsFile }) => !used.has(resultsFile))
+    .forEach(({ resultsFile }) =>
+      problems.push(
+        `'${resultsFile.name}' does not match any of the chosen documents.`,
+      ),
+    );
+  return problems;
+}
+
+/**
+ * Makes a document the active one: stores the outgoing document's state and
+ * restores the incoming document's preview and results.
+ */
+async function activateDocument(doc: BatchDocument) {
+  if (doc === activeDocument) return;
+  if (currentlyEditing) {
+    exitEditMode(false);
+  }
+  syncActiveDocument();
+
+  activeDocument = doc;
+  file = doc.file;
+  fileNameSpan.textContent = file.name;
+  extractButton.disabled = false;
+  ocrSlider.disabled = false;
+  renderBatchList();
+
+  try {
+    await renderPreview(file);
+  } catch (err) {
+    // Error is already displayed by renderPreview's internal catch blocks.
+    // We just need to log it and prevent further execution.
+    console.error('Render preview failed:', err);
+  }
+  if (doc !== activeDocument) return; // Another document was selected meanwhile
+  doc.pageDimensions = pageDimensions;
+  showDocumentResults(doc);
+  updateExportAvailability();
+  persistDocument(doc);
+  persistSettings();
+}
+
+/**
+ * Writes the active globals (which the editor mutates) back to the active
+ * batch document.
+ */
+function syncActiveDocument() {
+  if (activeDocument?.status === 'done') {
+    activeDocument.extractedData = extractedData;
+  }
+}
+
+function clearBatch() {
+  extractionQueue.clear();
+  if (currentlyEditing) {
+    exitEditMode(false);
+  }
+  documents = [];
+  activeDocument = null;
+  file = null;
+  fileUpload.value = '';
+  folderUpload.value = '';
+  fileNameSpan.textContent = 'No file chosen';
+  extractButton.disabled = true;
+  extractButton.textContent = 'Extract Information';
+  ocrSlider.disabled = true;
+  loadingSpinner.classList.add('hidden');
+  clearPreview();
+  renderBatchList();
+  updateExportAvailability();
+  persistSettings();
+  renderRecentDocuments();
+}
+
+function renderBatchList() {
+  batchContainer.classList.toggle('hidden', documents.length < 2);
+  batchList.innerHTML = '';
+
+  const counts: Record<string, number> = {};
+  documents.forEach((doc) => {
+    counts[doc.status] = (counts[doc.status] || 0) + 1;
+
+    const item = document.createElement('li');
+    item.className = 'batch-item';
+    item.classList.toggle('active', doc === activeDocument);
+    item.title = doc.error || doc.file.name;
+    item.addEventListener('click', () => activateDocument(doc));
+
+    const name = document.createElement('span');
+    name.className = 'batch-item-name';
+    name.textContent = doc.file.name;
+
+    const status = document.createElement('span');
+    status.className = `batch-status ${doc.status}`;
+    status.textContent =
+      doc.status === 'retrying'
+        ? `retrying (${doc.attempts})`
+        : doc.progress
+          ? `running ${doc.progress.completed}/${doc.progress.total}`
+          : doc.status;
+
+    item.append(name, status);
+    batchList.appendChild(item);
+  });
+
+  batchSummary.textContent = `${documents.length} files · ${
+    counts.done || 0
+  } done · ${counts.failed || 0} failed`;
+}
+
+// --- Session Persistence ---
+
+// Save failures are only logged; the session keeps working in memory.
+function persistDocument(doc: BatchDocument | null) {
+  if (!doc) return;
+  saveDocument(doc)
+    .then(renderRecentDocuments)
+    .catch((error) => console.error('Error saving the document:', error));
+}
+
+function persistSettings() {
+  saveSettings({
+    ocrThreshold: parseInt(ocrSlider.value, 10),
+    activeSchemaId,
+    openDocumentIds: documents.map((doc) => doc.id),
+    activeDocumentId: activeDocument?.id ?? null,
+  }).catch((error) => console.error('Error saving the settings:', error));
+}
+
+async function storeNewDocuments(docs: BatchDocument[]) {
+  try {
+    for (const doc of docs) {
+      await saveDocumentFile(doc);
+      await saveDocument(doc);
+    }
+    await pruneStoredDocuments(documents.map((doc) => doc.id));
+  } catch (error) {
+    console.error('Error saving the documents:', error);
+  }
+  renderRecentDocuments();
+}
+
+/**
+ * Restores the settings and the documents that were open when the page was
+ * last left.
+ */
+async function restoreSession() {
+  try {
+    const settings = await loadSettings();
+    if (settings) {
+      ocrSlider.value = String(settings.ocrThreshold);
+      ocrValueSpan.textContent = `${ocrSlider.value}%`;
+      activeSchemaId = settings.activeSchemaId;
+      populateSchemaSelect();
+      renderSchemaFields();
+
+      const stored = await loadStoredDocuments();
+      const restored: BatchDocument[] = [];
+      for (const id of settings.openDocumentIds) {
+        const record = stored.find((doc) => doc.id === id);
+        const doc = record && (await restoreDocument(record));
+        if (doc) restored.push(doc);
+      }
+      if (restored.length > 0) {
+        documents.push(...restored);
+        renderBatchList();
+        updateExportAvailability();
+        await activateDocument(
+          restored.find((doc) => doc.id === settings.activeDocumentId) ||
+            restored[0],
+        );
+      }
+    }
+  } catch (error) {
+    console.error('Error restoring the session:', error);
+  }
+  renderRecentDocuments();
+}
+
+/**
+ * Reopens a stored document, or switches to it if it is already open.
+ */
+async function openStoredDocument(stored: StoredDocument) {
+  const openDocument = documents.find((doc) => doc.id === stored.id);
+  if (openDocument) {
+    await activateDocument(openDocument);
+    return;
+  }
+  const doc = await restoreDocument(stored);
+  if (!doc) {
+    uploadError.textContent = `The file of '${stored.fileName}' is no longer stored.`;
+    uploadError.classList.remove('hidden');
+    return;
+  }
+  documents.push(doc);
+  renderBatchList();
+  updateExportAvailability();
+  await activateDocument(doc);
+}
+
+async function renderRecentDocuments() {
+  let stored: StoredDocument[] = [];
+  try {
+    stored = await loadStoredDocuments();
+  } catch (error) {
+    console.error('Error loading recent documents:', error);
+  }
+  recentSidebar.classList.toggle('hidden', stored.length === 0);
+  recentList.innerHTML = '';
+
+  stored.forEach((record) => {
+    const isOpen = documents.some((doc) => doc.id === record.id);
+    const item = document.createElement('li');
+    item.className = 'recent-item';
+    item.classList.toggle('active', record.id === activeDocument?.id);
+    item.title = record.fileName;
+    item.addEventListener('click', () =>
+      openStoredDocument(record).catch((error) =>
+        console.error('Error opening the document:', error),
+      ),
+    );
+
+    const name = document.createElement('span');
+    name.className = 'recent-item-name';
+    name.textContent = record.fileName;
+
+    const details = document.createElement('span');
+    details.className = 'recent-item-details';
+    details.textContent = `${
+      record.status === 'done'
+        ? `${record.extractedData.length} elements`
+        : record.status
+    } · ${new Date(record.updatedAt).toLocaleString()}`;
+
+    item.append(name, details);
+
+    // Open documents would be saved again on their next change.
+    if (!isOpen) {
+      const forgetButton = document.createElement('button');
+      forgetButton.className = 'result-action-btn cancel-btn';
+      forgetButton.title = 'Remove from recent documents';
+      forgetButton.appendChild(
+        document.getElementById('icon-cancel').cloneNode(true),
+      );
+      forgetButton.addEventListener('click', (e) => {
+        e.stopPropagation();
+        deleteStoredDocument(record.id)
+          .catch((error) =>
+            console.error('Error removing the document:', error),
+          )
+          .then(renderRecentDocuments);
+      });
+      item.appendChild(forgetButton);
+    }
+    recentList.appendChild(item);
+  });
+}
+
+// --- Provider Functions ---
+
+function getActiveProvider(): ExtractionProvider {
+  return (
+    providers.find((provider) => provider.id === providerSelect.value) ||
+    providers[0]
+  );
+}
+
+function populateProviderSelect() {
+  providers.forEach((provider) => {
+    const option = document.createElement('option');
+    option.value = provider.id;
+    option.textContent = provider.name;
+    providerSelect.appendChild(option);
+  });
+  // Start offline; switch to Gemini once the extraction server answers.
+  providerSelect.value = 'fixtures';
+  populateModelSelect();
+  fetch('/status')
+    .then((response) => (response.ok ? response.json() : null))
+    .then((status) => {
+      if (isServerStatus(status) && providerSelect.value === 'fixtures') {
+        providerSelect.value = 'gemini';
+        populateModelSelect();
+      }
+    })
+    .catch(() => {});
+}
+
+function populateModelSelect() {
+  const provider = getActiveProvider();
+  modelSelect.innerHTML = '';
+  provider.models.forEach((model) => {
+    const option = document.createElement('option');
+    option.value = model;
+    option.textContent = model;
+    modelSelect.appendChild(option);
+  });
+  modelSelect.disabled = provider.models.length < 2;
+}
+
+function updateRecordingsLink() {
+  downloadRecordingsLink.classList.toggle(
+    'hidden',
+    responseFixtures.recordings.length === 0,
+  );
+}
+
+function updateExportAvailability() {
+  const hasBatchResults = documents.some((doc) => doc.status === 'done');
+  exportBatchJsonButton.classList.toggle('hidden', documents.length < 2);
+  exportBatchCsvButton.classList.toggle('hidden', documents.length < 2);
+  if (documents.length > 1 && hasBatchResults) {
+    exportButton.disabled = false;
+  }
+}
+
+// --- Event Listeners ---
+
+const handleFileInputChange = async (event: Event) => {
+  const target = event.target as HTMLInputElement;
+  if (target.files && target.files.length > 0) {
+    uploadError.classList.add('hidden');
+    await addFilesToBatch(Array.from(target.files));
+    // Reset so that choosing the same files again still fires 'change'.
+    target.value = '';
+  } else if (documents.length === 0) {
     fileNameSpan.textContent = 'No file chosen';
     extractButton.disabled = true;
     ocrSlider.disabled = true;
     clearPreview();
   }
+};
+
+fileUpload.addEventListener('change', handleFileInputChange);
+folderUpload.addEventListener('change', handleFileInputChange);
+
+uploadContainer.addEventListener('dragover', (e: DragEvent) => {
+  e.preventDefault();
+  uploadContainer.classList.add('drag-over');
+});
+
+uploadContainer.addEventListener('dragleave', () => {
+  uploadContainer.classList.remove('drag-over');
+});
+
+uploadContainer.addEventListener('drop', async (e: DragEvent) => {
+  e.preventDefault();
+  uploadContainer.classList.remove('drag-over');
+  if (!e.dataTransfer) return;
+  uploadError.classList.add('hidden');
+  try {
+    await addFilesToBatch(await collectDroppedFiles(e.dataTransfer));
+  } catch (error) {
+    console.error('Error reading dropped files:', error);
+    uploadError.textContent = 'An error occurred while reading the dropped files.';
+    uploadError.classList.remove('hidden');
+  }
+});
+
+batchExtractButton.addEventListener('click', () => {
+  if (currentlyEditing) {
+    exitEditMode(false);
+  }
+  extractionQueue.enqueue(documents.filter((doc) => doc.status !== 'done'));
+});
+
+batchClearButton.addEventListener('click', clearBatch);
+
+batchConcurrencyInput.addEventListener('change', () => {
+  const concurrency = parseInt(batchConcurrencyInput.value, 10);
+  if (!isNaN(concurrency)) {
+    extractionQueue.setConcurrency(concurrency);
+  }
 });
 
 extractButton.addEventListener('click', runExtraction);
 
+providerSelect.addEventListener('change', populateModelSelect);
+
+downloadRecordingsLink.addEventListener('click', (e) => {
+  e.preventDefault();
+  downloadFile(
+    JSON.stringify(responseFixtures, null, 2),
+    'application/json',
+    'recorded-responses.json',
+  );
+});
+
+// The slider filters the current results; re-extracting is a separate action.
 ocrSlider.addEventListener('input', () => {
   if (ocrValueSpan) {
     ocrValueSpan.textContent = `${ocrSlider.value}%`;
   }
+  applyConfidenceThreshold();
 });
 
 ocrSlider.addEventListener('change', () => {
-  // Only re-run if a file is already loaded and processed
-  if (file && fileData) {
-    runExtraction();
-  }
+  persistSettings();
+  if (extractedData.length === 0) return;
+  const hidden = extractedData.filter((element) =>
+    isBelowThreshold(element, element.confidence),
+  ).length;
+  setReviewStatus(
+    hidden
+      ? `${hidden} element(s) scored below ${ocrSlider.value}% are greyed out.`
+      : `No elements are scored below ${ocrSlider.value}%.`,
+  );
 });
 
 tabsContainer.addEventListener('click', (e) => {
@@ -398,26 +1162,135 @@ exportButton.addEventListener('click', () => {
 exportCsvButton.addEventListener('click', (e) => {
   e.preventDefault();
   if (extractedData.length > 0) {
-    exportAsCsv(extractedData);
+    exportAsCsv(getExportElements(extractedData));
   }
   exportDropdown.classList.add('hidden');
 });
 
-exportTxtButton.addEventListener('click', (e) => {
+exportJsonButton.addEventListener('click', (e) => {
   e.preventDefault();
   if (extractedData.length > 0) {
-    exportAsTxt(extractedData);
+    exportAsJson(getExportElements(extractedData));
   }
   exportDropdown.classList.add('hidden');
 });
 
-// Close dropdown if clicked outside
-document.addEventListener('click', (event) => {
-  if (
-    !exportButton.contains(event.target as Node) &&
-    !exportDropdown.contains(event.target as Node)
-  ) {
-    exportDropdown.classList.add('hidden');
+exportTxtButton.addEventListener('click', (e) => {
+  e.preventDefault();
+  if (extractedData.length > 0) {
+    exportAsTxt(getExportElements(extractedData));
+  }
+  exportDropdown.classList.add('hidden');
+});
+
+exportXlsxButton.addEventListener('click', (e) => {
+  e.preventDefault();
+  if (extractedData.length > 0) {
+    exportAsXlsx(getExportElements(extractedData));
+  }
+  exportDropdown.classList.add('hidden');
+});
+
+exportMarkdownButton.addEventListener('click', (e) => {
+  e.preventDefault();
+  if (extractedData.length > 0) {
+    exportReconstruction(getExportElements(extractedData), 'md');
+  }
+  exportDropdown.classList.add('hidden');
+});
+
+exportHtmlButton.addEventListener('click', (e) => {
+  e.preventDefault();
+  if (extractedData.length > 0) {
+    exportReconstruction(getExportElements(extractedData), 'html');
+  }
+  exportDropdown.classList.add('hidden');
+});
+
+exportDocxButton.addEventListener('click', (e) => {
+  e.preventDefault();
+  if (extractedData.length > 0) {
+    exportReconstruction(getExportElements(extractedData), 'docx');
+  }
+  exportDropdown.classList.add('hidden');
+});
+
+exportSearchablePdfButton.addEventListener('click', (e) => {
+  e.preventDefault();
+  exportDropdown.classList.add('hidden');
+  exportAsPdf('searchable');
+});
+
+exportReviewPdfButton.addEventListener('click', (e) => {
+  e.preventDefault();
+  exportDropdown.classList.add('hidden');
+  exportAsPdf('review');
+});
+
+const interchangeButtons: [HTMLElement, InterchangeFormat][] = [
+  [exportCocoButton, 'coco'],
+  [exportLabelStudioButton, 'label-studio'],
+  [exportHocrButton, 'hocr'],
+  [exportAltoButton, 'alto'],
+];
+interchangeButtons.forEach(([button, format]) => {
+  button.addEventListener('click', (e) => {
+    e.preventDefault();
+    if (extractedData.length > 0) {
+      exportInterchange(getExportElements(extractedData), format);
+    }
+    exportDropdown.classList.add('hidden');
+  });
+});
+
+importAnnotationsLink.addEventListener('click', (e) => {
+  e.preventDefault();
+  if (!activeDocument || pageDimensions.length === 0) {
+    uploadError.textContent =
+      'Choose a document before importing results for it.';
+    uploadError.classList.remove('hidden');
+    return;
+  }
+  annotationsUpload.click();
+});
+
+annotationsUpload.addEventListener('change', async () => {
+  const resultsFile = annotationsUpload.files?.[0];
+  // Reset so that choosing the same file again still fires 'change'.
+  annotationsUpload.value = '';
+  if (resultsFile && activeDocument) {
+    await importResultsFile(activeDocument, resultsFile);
+  }
+});
+
+exportBatchJsonButton.addEventListener('click', (e) => {
+  e.preventDefault();
+  syncActiveDocument();
+  exportBatchAsJson(documents);
+  exportDropdown.classList.add('hidden');
+});
+
+exportBatchCsvButton.addEventListener('click', (e) => {
+  e.preventDefault();
+  syncActiveDocument();
+  exportBatchAsCsv(documents);
+  exportDropdown.classList.add('hidden');
+});
+
+exportFeedbackButton.addEventListener('click', (e) => {
+  e.preventDefault();
+  syncActiveDocument();
+  exportFeedbackAsJsonl(documents);
+  exportDropdown.classList.add('hidden');
+});
+
+// Close dropdown if clicked outside
+document.addEventListener('click', (event) => {
+  if (
+    !exportButton.contains(event.target as Node) &&
+    !exportDropdown.contains(event.target as Node)
+  ) {
+    exportDropdown.classList.add('hidden');
   }
 });
 
@@ -425,6 +1298,75 @@ previewContainer.addEventListener('mousemove', (event) => {
   handlePreviewMouseMove(event);
 });
 
+previewContainer.addEventListener('mousedown', startRegionDraw);
+previewContainer.addEventListener('mousedown', startPan);
+
+// Ctrl+wheel (Cmd on macOS, or a trackpad pinch) zooms around the cursor.
+previewContainer.addEventListener(
+  'wheel',
+  (event) => {
+    if (!(event.ctrlKey || event.metaKey) || pageDimensions.length === 0) {
+      return;
+    }
+    event.preventDefault();
+    setZoom(zoom * getWheelZoomFactor(event.deltaY, event.deltaMode), {
+      x: event.clientX,
+      y: event.clientY,
+    });
+  },
+  { passive: false },
+);
+
+zoomOutButton.addEventListener('click', () => setZoom(zoom / ZOOM_STEP));
+zoomInButton.addEventListener('click', () => setZoom(zoom * ZOOM_STEP));
+fitWidthButton.addEventListener('click', () => setZoom('fit-width'));
+fitPageButton.addEventListener('click', () => setZoom('fit-page'));
+window.addEventListener('resize', applyZoom);
+previewContainer.addEventListener('scroll', updateCurrentThumbnail);
+
+drawRegionButton.addEventListener('click', () => {
+  setDrawRegionMode(!isDrawingRegion);
+});
+
+mergeButton.addEventListener('click', mergeSelectedElements);
+
+reviewQueueButton.addEventListener('click', () => {
+  if (reviewQueue) {
+    closeReviewQueue();
+  } else {
+    openReviewQueue();
+  }
+});
+
+redactButton.addEventListener('click', () => {
+  setRedactionMode(!redactionMode);
+});
+
+undoButton.addEventListener('click', undoLastEdit);
+redoButton.addEventListener('click', redoLastEdit);
+
+// Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS). Text inputs keep their own undo.
+document.addEventListener('keydown', (event) => {
+  const key = event.key.toLowerCase();
+  if (!(event.ctrlKey || event.metaKey) || (key !== 'z' && key !== 'y')) {
+    return;
+  }
+  const target = event.target as HTMLElement;
+  if (
+    ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) ||
+    target.isContentEditable ||
+    reviewToolbar.classList.contains('hidden')
+  ) {
+    return;
+  }
+  event.preventDefault();
+  if (key === 'y' || event.shiftKey) {
+    redoLastEdit();
+  } else {
+    undoLastEdit();
+  }
+});
+
 previewContainer.addEventListener('mouseleave', () => {
   if (currentlyEditing) return;
   clearBoundingBoxes();
@@ -432,11 +1374,9 @@ previewContainer.addEventListener('mouseleave', () => {
 });
 
 function handleFeedback(isGood: boolean) {
-  console.log(
-    `Bounding box accuracy feedback: ${
-      isGood ? 'Good' : 'Needs Improvement'
-    }. This data can be used for model retraining.`,
-  );
+  if (!activeDocument) return;
+  activeDocument.feedback.rating = isGood ? 'good' : 'bad';
+  persistDocument(activeDocument);
   feedbackGoodButton.disabled = true;
   feedbackBadButton.disabled = true;
   feedbackThanksSpan.classList.remove('hidden');
@@ -470,10 +1410,15 @@ function setActiveTab(tabName: string) {
  */
 async function renderPreview(file: File): Promise<void> {
   clearPreview();
+  const generation = ++previewGeneration;
+  // True once another document's preview has started rendering.
+  const isStale = () => generation !== previewGeneration;
+
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
 
     reader.onload = async (e) => {
+      if (isStale()) return resolve();
       try {
         const result = e.target?.result as string;
         if (!result) {
@@ -492,10 +1437,17 @@ async function renderPreview(file: File): Promise<void> {
         if (file.type === 'application/pdf') {
           const pdf = await pdfjsLib.getDocument({ data: atob(base64Data) })
             .promise;
+          if (isStale()) {
+            pdf.destroy();
+            return resolve();
+          }
+          pdfDocument = pdf;
+          pdfDocuments.show(pdf);
+          // Pages start as placeholders of their size; they are rendered as
+          // they come near the view (see renderNearbyPages).
           for (let i = 1; i <= pdf.numPages; i++) {
-            const canvas = document.createElement('canvas');
-            canvas.dataset.pageNumber = String(i);
             const page = await pdf.getPage(i);
+            if (isStale()) return resolve();
 
             // Get viewport at scale 1.0 to store the true, unscaled dimensions.
             const unscaledViewport = page.getViewport({ scale: 1.0 });
@@ -503,32 +1455,29 @@ async function renderPreview(file: File): Promise<void> {
               width: unscaledViewport.width,
               height: unscaledViewport.height,
             });
-
-            // Use a separate, scaled viewport for high-resolution rendering.
-            const renderScale = 1.5;
-            const renderViewport = page.getViewport({ scale: renderScale });
-            const context = canvas.getContext('2d');
-            canvas.height = renderViewport.height;
-            canvas.width = renderViewport.width;
-
-            await page.render({
-              canvasContext: context,
-              viewport: renderViewport,
-            }).promise;
-            previewContainer.appendChild(canvas);
+            const pageElement = document.createElement('div');
+            pageElement.className = 'preview-page';
+            pageElement.dataset.pageNumber = String(i);
+            previewContainer.appendChild(pageElement);
           }
-          resolve(); // Resolve after all PDF pages are rendered
+          // The strip narrows the preview, so it is shown before fitting.
+          renderThumbnails();
+          applyZoom();
+          observePreviewPages();
+          resolve(); // Resolve once every page has its place
         } else {
           // Image logic
           const imagePreview = document.createElement('img');
           imagePreview.alt = 'Image preview';
           imagePreview.dataset.pageNumber = '1';
           imagePreview.onload = () => {
+            if (isStale()) return resolve();
             pageDimensions.push({
               width: imagePreview.naturalWidth,
               height: imagePreview.naturalHeight,
             });
             previewContainer.appendChild(imagePreview);
+            applyZoom();
             resolve(); // Resolve only after the image is loaded and dimensions are stored
           };
           imagePreview.onerror = () => {
@@ -539,6 +1488,8 @@ async function renderPreview(file: File): Promise<void> {
           imagePreview.src = result;
         }
       } catch (error) {
+        // Clearing the preview for another document destroys this one.
+        if (isStale()) return resolve();
         console.error('Error rendering preview:', error);
         const message =
           error instanceof Error ? error.message : 'An unknown error occurred.';
@@ -567,149 +1518,424 @@ async function renderPreview(file: File): Promise<void> {
   });
 }
 
-function displayMarkdownResults(elements: any[]) {
+function displayMarkdownResults(
+  elements: ExtractedElement[],
+  warnings: string[] = [],
+) {
   markdownResultsContainer.innerHTML = ''; // Clear previous results
   if (!elements || elements.length === 0) {
-    markdownResultsContainer.innerHTML =
-      '<p>No structured data was extracted. The document might be empty or in an unsupported format.</p>';
+    const emptyMessage = document.createElement('p');
+    emptyMessage.textContent =
+      'No structured data was extracted. The document might be empty or in an unsupported format.';
+    markdownResultsContainer.appendChild(emptyMessage);
+    if (warnings.length > 0) {
+      markdownResultsContainer.prepend(createValidationPanel(elements, warnings));
+    }
     return;
   }
 
+  const validationPanel = createValidationPanel(elements, warnings);
+  if (validationPanel) {
+    markdownResultsContainer.appendChild(validationPanel);
+  }
+
   elements.forEach((element, index) => {
-    const resultItem = document.createElement('div');
-    resultItem.className = 'result-item';
-    resultItem.dataset.elementIndex = String(index);
-
-    const header = document.createElement('div');
-    header.className = 'result-item-header';
-    header.addEventListener('click', () => {
-      if (currentlyEditing?.index !== index) {
-        drawBoundingBox(element, false);
+    const resultItem = createResultItem(element, index);
+    if (!resultItem) return; // Skip unknown types
+    markdownResultsContainer.appendChild(resultItem);
+
+    // After appending, populate the actions for this item
+    updateActionButtons(index);
+  });
+}
+
+/**
+ * Re-renders the card of a single element, e.g. after it was edited.
+ */
+function refreshResultItem(index: number) {
+  const existingItem = markdownResultsContainer.querySelector(
+    `.result-item[data-element-index='${index}']`,
+  );
+  const resultItem = createResultItem(extractedData[index], index);
+  if (!existingItem || !resultItem) return;
+  existingItem.replaceWith(resultItem);
+  updateActionButtons(index);
+}
+
+function createResultItem(element: ExtractedElement, index: number) {
+  const resultItem = document.createElement('div');
+  resultItem.className = 'result-item';
+  resultItem.dataset.elementIndex = String(index);
+
+  const header = document.createElement('div');
+  header.className = 'result-item-header';
+  header.addEventListener('click', () => {
+    if (currentlyEditing?.index !== index) {
+      drawBoundingBox(extractedData[index], false);
+    }
+  });
+
+  const selectBox = document.createElement('input');
+  selectBox.type = 'checkbox';
+  selectBox.className = 'result-select';
+  selectBox.title = 'Select for merging';
+  selectBox.checked = selectedElements.has(element);
+  selectBox.addEventListener('click', (e) => e.stopPropagation());
+  selectBox.addEventListener('change', () => {
+    if (selectBox.checked) {
+      selectedElements.add(element);
+    } else {
+      selectedElements.delete(element);
+    }
+    updateMergeButton();
+  });
+  header.appendChild(selectBox);
+
+  const content = document.createElement('div');
+  content.className = 'result-item-content';
+
+  const actions = document.createElement('div');
+  actions.className = 'result-item-actions';
+  actions.dataset.actionsIndex = String(index); // Link actions to the item
+
+  switch (element.type) {
+    case 'field':
+    case 'checkbox':
+    case 'paragraph':
+    case 'logo':
+    case 'figure':
+    case 'marginalia':
+    case 'attestation':
+      resultItem.classList.add('field-item', `${element.type}-item`);
+      content.append(
+        ...createLabelValue(element.label || element.type, element.value),
+      );
+      break;
+
+    case 'field_group':
+      resultItem.classList.add('field-group-item');
+      const groupTitle = document.createElement('h3');
+      groupTitle.textContent = element.label || 'Field Group';
+      content.appendChild(groupTitle);
+
+      if (element.fields && element.fields.length > 0) {
+        const fieldsList = document.createElement('div');
+        fieldsList.className = 'field-group-fields';
+        element.fields.forEach((field) => {
+          const fieldDiv = document.createElement('div');
+          fieldDiv.className = 'field-item-inner';
+          fieldDiv.append(
+            ...createLabelValue(field.label || 'N/A', field.value),
+          );
+          if (field.confidence !== undefined && !element.edited) {
+            fieldDiv.appendChild(createConfidenceBadge(field.confidence));
+          }
+          const fieldPii = getFieldPii(field);
+          if (fieldPii.length > 0) {
+            fieldDiv.appendChild(createPiiTags(fieldPii));
+          }
+          fieldDiv.classList.toggle(
+            'below-threshold',
+            isBelowThreshold(element, field.confidence),
+          );
+          fieldsList.appendChild(fieldDiv);
+        });
+        content.appendChild(fieldsList);
+      }
+      break;
+
+    case 'table':
+      resultItem.classList.add('table-item');
+      const tableTitle = document.createElement('h3');
+      tableTitle.textContent = element.label || 'Extracted Table';
+      content.appendChild(tableTitle);
+
+      if (element.table_data && element.table_data.rows) {
+        const table = document.createElement('table');
+        const thead = document.createElement('thead');
+        const headerRow = document.createElement('tr');
+
+        (element.table_data.headers || []).forEach((headerText) => {
+          const th = document.createElement('th');
+          th.textContent = headerText;
+          headerRow.appendChild(th);
+        });
+        thead.appendChild(headerRow);
+        table.appendChild(thead);
+
+        const tbody = document.createElement('tbody');
+        element.table_data.rows.forEach((rowData) => {
+          const row = document.createElement('tr');
+          rowData.forEach((cellData) => {
+            const td = document.createElement('td');
+            td.textContent = cellData;
+            row.appendChild(td);
+          });
+          tbody.appendChild(row);
+        });
+        table.appendChild(tbody);
+        content.appendChild(table);
+      } else {
+        const emptyTable = document.createElement('p');
+        emptyTable.textContent = 'Table data is empty or malformed.';
+        content.appendChild(emptyTable);
       }
+      break;
+
+    default:
+      return null;
+  }
+
+  header.appendChild(content);
+  if (element.edited) {
+    resultItem.classList.add('is-edited');
+    const editedBadge = document.createElement('span');
+    editedBadge.className = 'edited-badge';
+    editedBadge.textContent = 'Edited';
+    editedBadge.title = 'Corrected by hand; differs from the model output.';
+    header.appendChild(editedBadge);
+  }
+  // Group cards show their fields' scores instead of the lowest one.
+  const confidence =
+    element.type === 'field_group'
+      ? element.confidence
+      : getElementConfidence(element);
+  if (confidence !== undefined && !element.edited) {
+    header.appendChild(createConfidenceBadge(confidence));
+  }
+  // Likewise group cards show only the group's own tags.
+  const pii =
+    element.type === 'field_group' ? element.pii || [] : getElementPii(element);
+  if (pii.length > 0) {
+    header.appendChild(createPiiTags(pii));
+  }
+  resultItem.classList.toggle(
+    'below-threshold',
+    isBelowThreshold(element, element.confidence),
+  );
+  header.appendChild(actions);
+  resultItem.appendChild(header);
+  resultItem.appendChild(createFeedbackRow(element));
+
+  const issues = getElementIssues(element);
+  if (issues.length > 0) {
+    const hasInvalid = issues.some((issue) => issue.severity === 'invalid');
+    resultItem.classList.add(hasInvalid ? 'has-invalid' : 'has-repairs');
+    const issueList = document.createElement('ul');
+    issueList.className = 'result-warnings';
+    issues.forEach((issue) => {
+      const issueItem = document.createElement('li');
+      issueItem.className = `result-warning ${issue.severity}`;
+      issueItem.textContent = issue.message;
+      issueList.appendChild(issueItem);
     });
+    resultItem.appendChild(issueList);
+  }
 
-    const content = document.createElement('div');
-    content.className = 'result-item-content';
-
-    const actions = document.createElement('div');
-    actions.className = 'result-item-actions';
-    actions.dataset.actionsIndex = String(index); // Link actions to the item
-
-    switch (element.type) {
-      case 'field':
-      case 'checkbox':
-      case 'paragraph':
-      case 'logo':
-      case 'figure':
-      case 'marginalia':
-      case 'attestation':
-        resultItem.classList.add('field-item', `${element.type}-item`);
-        content.innerHTML = `
-          <span class="result-label">${element.label || element.type}</span>
-          <span class="result-value">${element.value || 'N/A'}</span>
-        `;
-        break;
+  return resultItem;
+}
 
-      case 'field_group':
-        resultItem.classList.add('field-group-item');
-        const groupTitle = document.createElement('h3');
-        groupTitle.textContent = element.label || 'Field Group';
-        content.appendChild(groupTitle);
-
-        if (element.fields && element.fields.length > 0) {
-          const fieldsList = document.createElement('div');
-          fieldsList.className = 'field-group-fields';
-          element.fields.forEach(
-            (field: { label: string; value: string }) => {
-              const fieldDiv = document.createElement('div');
-              fieldDiv.className = 'field-item-inner';
-              fieldDiv.innerHTML = `
-                <span class="result-label">${field.label || 'N/A'}</span>
-                <span class="result-value">${field.value || 'N/A'}</span>
-              `;
-              fieldsList.appendChild(fieldDiv);
-            },
-          );
-          content.appendChild(fieldsList);
-        }
-        break;
+/**
+ * The label and value spans of a card or group field. Extracted text comes
+ * from untrusted documents, so it is only ever set as text, never as HTML.
+ */
+function createLabelValue(label: string, value: string) {
+  const labelSpan = document.createElement('span');
+  labelSpan.className = 'result-label';
+  labelSpan.textContent = label;
+  const valueSpan = document.createElement('span');
+  valueSpan.className = 'result-value';
+  valueSpan.textContent = value || 'N/A';
+  return [labelSpan, valueSpan];
+}
 
-      case 'table':
-        resultItem.classList.add('table-item');
-        const tableTitle = document.createElement('h3');
-        tableTitle.textContent = element.label || 'Extracted Table';
-        content.appendChild(tableTitle);
-
-        if (element.table_data && element.table_data.rows) {
-          const table = document.createElement('table');
-          const thead = document.createElement('thead');
-          const headerRow = document.createElement('tr');
-
-          (element.table_data.headers || []).forEach((headerText: string) => {
-            const th = document.createElement('th');
-            th.textContent = headerText;
-            headerRow.appendChild(th);
-          });
-          thead.appendChild(headerRow);
-          table.appendChild(thead);
-
-          const tbody = document.createElement('tbody');
-          element.table_data.rows.forEach((rowData: string[]) => {
-            const row = document.createElement('tr');
-            rowData.forEach((cellData: string) => {
-              const td = document.createElement('td');
-              td.textContent = cellData;
-              row.appendChild(td);
-            });
-            tbody.appendChild(row);
-          });
-          table.appendChild(tbody);
-          content.appendChild(table);
-        } else {
-          content.innerHTML += '<p>Table data is empty or malformed.</p>';
-        }
-        break;
+/**
+ * Whether a score falls below the threshold slider. Unscored and edited
+ * elements are never filtered out.
+ */
+function isBelowThreshold(
+  element: ExtractedElement,
+  confidence: number | undefined,
+) {
+  return (
+    !element.edited &&
+    confidence !== undefined &&
+    confidence < parseInt(ocrSlider.value, 10) / 100
+  );
+}
 
-      default:
-        return; // Skip unknown types
-    }
+/**
+ * Greys out the cards and group fields scored below the threshold slider in
+ * place, without re-rendering or extracting again.
+ */
+function applyConfidenceThreshold() {
+  markdownResultsContainer
+    .querySelectorAll<HTMLElement>('.result-item')
+    .forEach((item) => {
+      const element = extractedData[Number(item.dataset.elementIndex)];
+      if (!element) return;
+      item.classList.toggle(
+        'below-threshold',
+        isBelowThreshold(element, element.confidence),
+      );
+      if (element.type !== 'field_group') return;
+      item
+        .querySelectorAll('.field-item-inner')
+        .forEach((row, i) =>
+          row.classList.toggle(
+            'below-threshold',
+            isBelowThreshold(element, element.fields[i]?.confidence),
+          ),
+        );
+    });
+}
 
-    header.appendChild(content);
-    header.appendChild(actions);
-    resultItem.appendChild(header);
-    markdownResultsContainer.appendChild(resultItem);
+// Tags naming the kinds of personal data in an element or field.
+function createPiiTags(categories: PiiCategory[]) {
+  const tags = document.createElement('span');
+  tags.className = 'pii-tags';
+  categories.forEach((category) => {
+    const tag = document.createElement('span');
+    tag.className = 'pii-tag';
+    tag.textContent = PII_CATEGORY_NAMES[category];
+    tags.appendChild(tag);
+  });
+  tags.title = 'Personal data';
+  return tags;
+}
 
-    // After appending, populate the actions for this item
-    updateActionButtons(index);
+// The model's confidence as a percentage, coloured by level.
+function createConfidenceBadge(confidence: number) {
+  const badge = document.createElement('span');
+  badge.className = `confidence-badge confidence-${getConfidenceLevel(
+    confidence,
+  )}`;
+  badge.textContent = `${Math.round(confidence * 100)}%`;
+  badge.title = 'Model confidence';
+  return badge;
+}
+
+/**
+ * Builds the row of feedback labels under a result card. Clicking the active
+ * label again clears it.
+ */
+function createFeedbackRow(element: ExtractedElement) {
+  const row = document.createElement('div');
+  row.className = 'element-feedback';
+  const current = activeDocument
+    ? getElementFeedback(activeDocument.feedback, element)
+    : undefined;
+
+  ELEMENT_FEEDBACK_LABELS.forEach(({ label, text }) => {
+    const button = document.createElement('button');
+    button.className = `feedback-chip feedback-${label}`;
+    button.textContent = text;
+    button.classList.toggle('active', current === label);
+    button.addEventListener('click', (e) => {
+      e.stopPropagation();
+      if (!activeDocument) return;
+      const isActive = button.classList.contains('active');
+      setElementFeedback(
+        activeDocument.feedback,
+        element,
+        isActive ? null : label,
+      );
+      row.querySelectorAll('.feedback-chip').forEach((chip) => {
+        chip.classList.toggle('active', !isActive && chip === button);
+      });
+      persistDocument(activeDocument);
+    });
+    row.appendChild(button);
+  });
+  return row;
+}
+
+/**
+ * Builds the summary panel for validation problems found in the model
+ * output, or returns null if there were none.
+ */
+function createValidationPanel(
+  elements: ExtractedElement[],
+  warnings: string[],
+) {
+  const issueCounts = { repaired: 0, invalid: 0 };
+  elements.forEach((element) => {
+    const issues = getElementIssues(element);
+    if (issues.some((issue) => issue.severity === 'invalid')) {
+      issueCounts.invalid++;
+    } else if (issues.length > 0) {
+      issueCounts.repaired++;
+    }
   });
+  if (warnings.length === 0 && !issueCounts.repaired && !issueCounts.invalid) {
+    return null;
+  }
+
+  const panel = document.createElement('div');
+  panel.className = 'validation-panel';
+
+  const title = document.createElement('strong');
+  title.textContent = 'Validation warnings';
+  panel.appendChild(title);
+
+  const summary = document.createElement('ul');
+  const addLine = (text: string) => {
+    const line = document.createElement('li');
+    line.textContent = text;
+    summary.appendChild(line);
+  };
+  warnings.forEach(addLine);
+  if (issueCounts.repaired > 0) {
+    addLine(`${issueCounts.repaired} element(s) were repaired automatically.`);
+  }
+  if (issueCounts.invalid > 0) {
+    addLine(
+      `${issueCounts.invalid} element(s) could not be fully repaired and need review.`,
+    );
+  }
+  panel.appendChild(summary);
+  return panel;
+}
+
+// Helper for syntax highlighting a JSON string. The text is escaped before
+// tokens are wrapped in spans, so strings in it stay text.
+function syntaxHighlight(jsonString: string) {
+  return jsonString
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(
+      /("(\\u[a-zA-Z0-9]{4}|\\[^u]|[^\\"])*"(\s*:)?|\b(true|false|null)\b|-?\d+(?:\.\d*)?(?:[eE][+\-]?\d+)?)/g,
+      function (match) {
+        let cls = 'json-number';
+        if (/^"/.test(match)) {
+          cls = /:$/.test(match) ? 'json-key' : 'json-string';
+        } else if (/true|false/.test(match)) {
+          cls = 'json-boolean';
+        } else if (/null/.test(match)) {
+          cls = 'json-null';
+        }
+        return `<span class="${cls}">${match}</span>`;
+      },
+    );
+}
+
+/**
+ * Re-renders the JSON tab from the current `extractedData`. Results produced
+ * with a user-defined schema are shown keyed by the schema's field names.
+ */
+function refreshJsonResults() {
+  if (resultSchema) {
+    displayKeyedJsonResults(elementsToUserResult(resultSchema, extractedData));
+  } else {
+    displayJsonResults({ extracted_elements: extractedData });
+  }
 }
 
 function displayJsonResults(data: any) {
   // jsonResultsContainer is the <code> element with id="json-results"
   jsonResultsContainer.innerHTML = ''; // Clear previous content
 
-  // Helper for syntax highlighting a JSON string
-  const syntaxHighlight = (jsonString: string) => {
-    return jsonString
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(
-        /("(\\u[a-zA-Z0-9]{4}|\\[^u]|[^\\"])*"(\s*:)?|\b(true|false|null)\b|-?\d+(?:\.\d*)?(?:[eE][+\-]?\d+)?)/g,
-        function (match) {
-          let cls = 'json-number';
-          if (/^"/.test(match)) {
-            cls = /:$/.test(match) ? 'json-key' : 'json-string';
-          } else if (/true|false/.test(match)) {
-            cls = 'json-boolean';
-          } else if (/null/.test(match)) {
-            cls = 'json-null';
-          }
-          return `<span class="${cls}">${match}</span>`;
-        },
-      );
-  };
-
   // If there's no data or it's an error object without extracted_elements
   const elements = data.extracted_elements || data;
   if (!Array.isArray(elements)) {
@@ -746,12 +1972,38 @@ function displayJsonResults(data: any) {
   jsonResultsContainer.innerHTML = finalHtml;
 }
 
+/**
+ * Renders a result keyed by user-defined field names. Each key is linked to
+ * its element in `extractedData` so hover and click highlighting still work.
+ */
+function displayKeyedJsonResults(result: Record<string, any>) {
+  const keys = Object.keys(result);
+  let finalHtml = '{\n';
+
+  keys.forEach((key, keyIndex) => {
+    const valueString = JSON.stringify(result[key], null, 2);
+    const indentedHtml = syntaxHighlight(
+      `  ${JSON.stringify(key)}: ${valueString.replace(/\n/g, '\n  ')}`,
+    );
+    const elementIndex = findSchemaElementIndex(extractedData, key);
+    const separator = keyIndex < keys.length - 1 ? ',\n' : '\n';
+
+    finalHtml +=
+      elementIndex === -1
+        ? `${indentedHtml}${separator}`
+        : `<div class="json-interactive-element" data-element-index="${elementIndex}">${indentedHtml}</div>${separator}`;
+  });
+
+  finalHtml += '}';
+  jsonResultsContainer.innerHTML = finalHtml;
+}
+
 // Fix: The getCoordinateSystem function returns a nested object. The original code
 // incorrectly destructured it, leading to errors. This version correctly
 // handles the nested structure and passes the full coordinate system object
 // where needed, resolving multiple related type errors.
 function drawBoundingBox(
-  element: any,
+  element: ExtractedElement,
   isAnimated = false,
   isEditable = false,
 ) {
@@ -761,12 +2013,7 @@ function drawBoundingBox(
 
   // Prioritize using granular line_boxes for a tighter fit,
   // otherwise fall back to the main bounding_box.
-  const boxesToDraw =
-    element.line_boxes && element.line_boxes.length > 0
-      ? element.line_boxes
-      : element.bounding_box
-        ? [element.bounding_box]
-        : [];
+  const boxesToDraw = getElementBoxes(element);
 
   if (boxesToDraw.length === 0 || !element.page) return;
 
@@ -803,11 +2050,15 @@ function drawBoundingBox(
   }
   // --- END PRECISE SCROLL LOGIC ---
 
+  const confidence = getElementConfidence(element);
+  const confidenceLevel =
+    confidence === undefined ? null : getConfidenceLevel(confidence);
+
   // Draw a div for each box.
-  boxesToDraw.forEach((box: any, boxIndex: number) => {
+  boxesToDraw.forEach((box, boxIndex) => {
     if (!box) return;
 
-    const boundingBoxDiv = document.createElement('div');
+    const boundingBoxDiv: EditableBoxDiv = document.createElement('div');
     boundingBoxDiv.className = 'bounding-box';
     if (isAnimated) {
       boundingBoxDiv.classList.add('bounding-box-animated');
@@ -818,6 +2069,11 @@ function drawBoundingBox(
     } else {
       boundingBoxDiv.classList.add('bounding-box-text');
     }
+    if (confidenceLevel && confidenceLevel !== 'high') {
+      boundingBoxDiv.classList.add(
+        `bounding-box-${confidenceLevel}-confidence`,
+      );
+    }
 
     const {
       page: { width: contentWidth, height: contentHeight },
@@ -828,13 +2084,14 @@ function drawBoundingBox(
     boundingBoxDiv.style.top = `${top}px`;
     boundingBoxDiv.style.width = `${width}px`;
     boundingBoxDiv.style.height = `${height}px`;
+    boundingBoxDiv.region = { page: element.page, box };
 
     if (isEditable) {
       boundingBoxDiv.classList.add('editable');
       // Store reference to the original box data for updating
       // We use a property on the element to avoid globals
-      (boundingBoxDiv as any).originalBoxData = box;
-      (boundingBoxDiv as any).boxIndex = boxIndex;
+      boundingBoxDiv.originalBoxData = box;
+      boundingBoxDiv.boxIndex = boxIndex;
       makeBoxEditable(boundingBoxDiv);
     }
 
@@ -842,6 +2099,19 @@ function drawBoundingBox(
   });
 }
 
+// A box over a preview page, with the region it covers so that it can be
+// moved along when the pages are resized.
+interface OverlayDiv extends HTMLDivElement {
+  region?: PageRegion;
+}
+
+// A drawn box in edit mode, linked to the box it edits.
+interface EditableBoxDiv extends OverlayDiv {
+  originalBoxData?: BoundingBox;
+  boxIndex?: number;
+  wasMoved?: boolean;
+}
+
 function clearBoundingBoxes() {
   const existingBoxes = document.querySelectorAll('.bounding-box');
   existingBoxes.forEach((box) => box.remove());
@@ -855,14 +2125,28 @@ function clearResults() {
   markdownResultsContainer.innerHTML = '';
   jsonResultsContainer.textContent = '';
   extractedData = [];
+  resultSchema = null;
   exportButton.disabled = true;
   feedbackContainer?.classList.add('hidden');
+  selectedElements.clear();
+  setDrawRegionMode(false);
+  closeRegionPanel();
+  closeReviewQueue();
+  setReviewStatus(null);
+  reviewToolbar.classList.add('hidden');
+  updateMergeButton();
+  renderHistory();
+  drawRedactions();
 }
 
 function clearPreview() {
+  stopObservingPages();
   previewContainer.innerHTML = '';
   fileData = null;
+  pdfDocument = null;
+  pdfDocuments.show(null);
   pageDimensions = [];
+  updateZoomControls();
   clearBoundingBoxes();
   clearResults();
   setActiveTab('schema');
@@ -887,15 +2171,21 @@ function handlePreviewMouseMove(event: MouseEvent) {
     isThrottled ||
     !extractedData ||
     extractedData.length === 0 ||
-    currentlyEditing
+    currentlyEditing ||
+    isDrawingRegion ||
+    reviewQueue
   )
     return;
   isThrottled = true;
   setTimeout(() => (isThrottled = false), 50); // throttle calls
 
-  const target = event.target as HTMLElement;
+  // The page under the cursor: an image, or a PDF page whether or not it is
+  // rendered yet (the target is then its canvas or its placeholder).
+  const pageEl = (event.target as HTMLElement)?.closest<HTMLElement>(
+    '[data-page-number]',
+  );
   // Clear highlights if cursor is not over a page (e.g., in the padding)
-  if (!target || !['CANVAS', 'IMG'].includes(target.tagName)) {
+  if (!pageEl) {
     if (lastHoveredElementIndex !== -1) {
       clearBoundingBoxes();
       lastHoveredElementIndex = -1;
@@ -903,7 +2193,6 @@ function handlePreviewMouseMove(event: MouseEvent) {
     return;
   }
 
-  const pageEl = target;
   const pageNum = parseInt(pageEl.dataset.pageNumber, 10);
   const pageDim = pageDimensions[pageNum - 1];
   if (!pageDim) return;
@@ -913,24 +2202,24 @@ function handlePreviewMouseMove(event: MouseEvent) {
     coords: { scale, offsetX, offsetY },
   } = getCoordinateSystem(pageEl, pageNum);
 
-  // event.offsetX/Y are relative to the target element (the canvas/image)
-  const normalizedX = (event.offsetX - offsetX) / (contentWidth * scale);
-  const normalizedY = (event.offsetY - offsetY) / (contentHeight * scale);
+  // The cursor position relative to the page
+  const pageRect = pageEl.getBoundingClientRect();
+  const normalizedX =
+    (event.clientX - pageRect.left - offsetX) / (contentWidth * scale);
+  const normalizedY =
+    (event.clientY - pageRect.top - offsetY) / (contentHeight * scale);
 
   let foundElementIndex = -1;
   // Iterate backwards to find the topmost element (last in the DOM order)
   for (let i = extractedData.length - 1; i >= 0; i--) {
     const element = extractedData[i];
-    if (element.page !== pageNum) continue;
-
-    const boxesToCheck =
-      element.line_boxes && element.line_boxes.length > 0
-        ? element.line_boxes
-        : element.bounding_box
-          ? [element.bounding_box]
-          : [];
+    if (
+      element.page !== pageNum ||
+      isBelowThreshold(element, element.confidence)
+    )
+      continue;
 
-    for (const box of boxesToCheck) {
+    for (const box of getElementBoxes(element)) {
       if (
         box &&
         normalizedX >= box.left &&
@@ -971,13 +2260,13 @@ function enterEditMode(index: number) {
 
   currentlyEditing = {
     index,
-    // Deep copy for restoration on cancel
-    originalElement: JSON.parse(JSON.stringify(element)),
+    draft: JSON.parse(JSON.stringify(element)),
   };
 
   clearBoundingBoxes(); // Clear any hover boxes
   drawBoundingBox(element, false, true); // Draw the editable boxes
   updateActionButtons(index, true); // Show save/cancel
+  renderElementEditor(index); // Swap the card content for inputs
 
   // Highlight the item being edited
   const resultItem = markdownResultsContainer.querySelector(
@@ -990,48 +2279,256 @@ function enterEditMode(index: number) {
 function exitEditMode(shouldSave: boolean) {
   if (!currentlyEditing) return;
 
-  const { index, originalElement } = currentlyEditing;
+  const { index, draft } = currentlyEditing;
+  currentlyEditing = null;
 
   if (shouldSave) {
-    updateElementFromEditableBoxes(index);
-    // After saving, the current state is the new "original" state
-    // so we just clear the edit session.
-  } else {
-    // Restore the original data on cancel
-    extractedData[index] = originalElement;
+    updateElementFromEditableBoxes(draft);
+    // Saving records an undoable edit, which re-renders the card itself.
+    if (saveElementDraft(index, draft)) return;
   }
 
-  currentlyEditing = null;
-
-  // UI cleanup
-  const resultItem = markdownResultsContainer.querySelector(
-    `[data-element-index='${index}']`,
-  );
-  resultItem?.classList.remove('is-editing');
-
-  updateActionButtons(index, false); // Revert to edit button
+  // UI cleanup: re-rendering the card drops the inputs and the editing state.
+  refreshResultItem(index);
   clearBoundingBoxes(); // Remove editable boxes
-  displayJsonResults({ extracted_elements: extractedData }); // Refresh JSON view
 }
 
-function updateActionButtons(index: number, isEditing = false) {
-  const actionsContainer = markdownResultsContainer.querySelector(
-    `[data-actions-index='${index}']`,
+/**
+ * Replaces the element with an edited copy built from the draft, as an
+ * undoable edit. Returns false if nothing was changed.
+ */
+function saveElementDraft(index: number, draft: ExtractedElement) {
+  const element = extractedData[index];
+  // Compares everything except the boxes and the edited marker.
+  const contentOf = (el: ExtractedElement) =>
+    JSON.stringify({
+      ...el,
+      bounding_box: undefined,
+      line_boxes: undefined,
+      edited: undefined,
+    });
+  const contentChanged = contentOf(draft) !== contentOf(element);
+  const boxesChanged =
+    JSON.stringify(getElementBoxes(draft)) !==
+    JSON.stringify(getElementBoxes(element));
+  if (!contentChanged && !boxesChanged) return false;
+
+  const updated: ExtractedElement = { ...draft, edited: true };
+  setElementIssues(updated, getElementIssues(element));
+  if (selectedElements.delete(element)) {
+    selectedElements.add(updated);
+  }
+  commitEdit(
+    `${contentChanged ? 'Edited' : 'Adjusted box of'} ${describeElement(element)}`,
+    [{ index, removed: [element], inserted: [updated] }],
   );
-  if (!actionsContainer) return;
+  return true;
+}
 
-  actionsContainer.innerHTML = ''; // Clear existing buttons
+/**
+ * Replaces the content of a result card with inputs for the type, label and
+ * content of the element being edited. Inputs write straight to the draft.
+ */
+function renderElementEditor(index: number) {
+  if (!currentlyEditing || currentlyEditing.index !== index) return;
+  const content = markdownResultsContainer.querySelector(
+    `[data-element-index='${index}'] .result-item-content`,
+  ) as HTMLElement;
+  if (!content) return;
+
+  const draft = currentlyEditing.draft;
+  const rerender = () => renderElementEditor(index);
+  content.innerHTML = '';
+
+  const editor = document.createElement('div');
+  editor.className = 'element-editor';
+  // Enter saves and Escape cancels, except where Enter adds a line break.
+  editor.addEventListener('keydown', (event) => {
+    const target = event.target as HTMLElement;
+    if (event.key === 'Escape') {
+      exitEditMode(false);
+    } else if (event.key === 'Enter' && target.tagName === 'INPUT') {
+      exitEditMode(true);
+    }
+  });
 
-  const createBtn = (id: 'edit' | 'save' | 'cancel', onClick: () => void) => {
-    const btn = document.createElement('button');
-    btn.className = `result-action-btn ${id}-btn`;
-    const icon = document.getElementById(`icon-${id}`).cloneNode(true);
-    btn.appendChild(icon);
-    btn.addEventListener('click', (e) => {
-      e.stopPropagation(); // Prevent header click event
-      onClick();
-    });
-    return btn;
+  const typeSelect = document.createElement('select');
+  ELEMENT_TYPES.forEach((type) => {
+    const option = document.createElement('option');
+    option.value = type;
+    option.textContent = type;
+    typeSelect.appendChild(option);
+  });
+  typeSelect.value = draft.type;
+  typeSelect.addEventListener('change', () => {
+    currentlyEditing.draft = convertElementType(
+      draft,
+      typeSelect.value as ElementType,
+    );
+    rerender();
+  });
+
+  const labelInput = createEditorInput(draft.label || '', 'Label', (value) => {
+    draft.label = value;
+  });
+
+  const headerRow = document.createElement('div');
+  headerRow.className = 'element-editor-row';
+  headerRow.append(typeSelect, labelInput);
+  editor.appendChild(headerRow);
+
+  switch (draft.type) {
+    case 'field_group':
+      draft.fields.forEach((field, fieldIndex) => {
+        const row = document.createElement('div');
+        row.className = 'element-editor-row';
+        row.append(
+          createEditorInput(field.label, 'Label', (value) => {
+            field.label = value;
+          }),
+          createEditorInput(field.value, 'Value', (value) => {
+            field.value = value;
+          }),
+          createEditorRemoveButton('Remove field', () => {
+            draft.fields.splice(fieldIndex, 1);
+            rerender();
+          }),
+        );
+        editor.appendChild(row);
+      });
+      editor.appendChild(
+        createEditorAddButton('Add field', () => {
+          draft.fields.push({ label: '', value: '' });
+          rerender();
+        }),
+      );
+      break;
+
+    case 'table': {
+      const { headers, rows } = draft.table_data;
+      const table = document.createElement('table');
+      const headerCells = document.createElement('tr');
+      headers.forEach((headerText, column) => {
+        const th = document.createElement('th');
+        th.appendChild(
+          createEditorInput(headerText, 'Header', (value) => {
+            headers[column] = value;
+          }),
+        );
+        headerCells.appendChild(th);
+      });
+      headerCells.appendChild(document.createElement('th'));
+      table.appendChild(headerCells);
+
+      rows.forEach((rowData, rowIndex) => {
+        const row = document.createElement('tr');
+        headers.forEach((_, column) => {
+          const td = document.createElement('td');
+          td.appendChild(
+            createEditorInput(rowData[column] ?? '', '', (value) => {
+              rowData[column] = value;
+            }),
+          );
+          row.appendChild(td);
+        });
+        const removeCell = document.createElement('td');
+        removeCell.appendChild(
+          createEditorRemoveButton('Remove row', () => {
+            rows.splice(rowIndex, 1);
+            rerender();
+          }),
+        );
+        row.appendChild(removeCell);
+        table.appendChild(row);
+      });
+      editor.appendChild(table);
+
+      const tableActions = document.createElement('div');
+      tableActions.className = 'element-editor-row';
+      tableActions.append(
+        createEditorAddButton('Add row', () => {
+          rows.push(headers.map(() => ''));
+          rerender();
+        }),
+        createEditorAddButton('Add column', () => {
+          headers.push(`Column ${headers.length + 1}`);
+          rows.forEach((rowData) => rowData.push(''));
+          rerender();
+        }),
+      );
+      editor.appendChild(tableActions);
+      break;
+    }
+
+    default: {
+      const valueInput = document.createElement('textarea');
+      valueInput.placeholder = 'Value';
+      valueInput.rows = Math.min(
+        Math.max((draft.value || '').split('\n').length, 2),
+        8,
+      );
+      valueInput.value = draft.value || '';
+      valueInput.addEventListener('input', () => {
+        draft.value = valueInput.value;
+      });
+      editor.appendChild(valueInput);
+    }
+  }
+
+  content.appendChild(editor);
+}
+
+function createEditorInput(
+  value: string,
+  placeholder: string,
+  onInput: (value: string) => void,
+) {
+  const input = document.createElement('input');
+  input.type = 'text';
+  input.placeholder = placeholder;
+  input.value = value;
+  input.addEventListener('input', () => onInput(input.value));
+  return input;
+}
+
+function createEditorAddButton(text: string, onClick: () => void) {
+  const button = document.createElement('button');
+  button.className = 'schema-action-button';
+  button.textContent = text;
+  button.addEventListener('click', onClick);
+  return button;
+}
+
+function createEditorRemoveButton(title: string, onClick: () => void) {
+  const button = document.createElement('button');
+  button.className = 'result-action-btn cancel-btn';
+  button.title = title;
+  button.appendChild(document.getElementById('icon-cancel').cloneNode(true));
+  button.addEventListener('click', onClick);
+  return button;
+}
+
+function updateActionButtons(index: number, isEditing = false) {
+  const actionsContainer = markdownResultsContainer.querySelector(
+    `[data-actions-index='${index}']`,
+  );
+  if (!actionsContainer) return;
+
+  actionsContainer.innerHTML = ''; // Clear existing buttons
+
+  const createBtn = (
+    id: 'edit' | 'save' | 'cancel' | 'delete',
+    onClick: () => void,
+  ) => {
+    const btn = document.createElement('button');
+    btn.className = `result-action-btn ${id}-btn`;
+    const icon = document.getElementById(`icon-${id}`).cloneNode(true);
+    btn.appendChild(icon);
+    btn.addEventListener('click', (e) => {
+      e.stopPropagation(); // Prevent header click event
+      onClick();
+    });
+    return btn;
   };
 
   if (isEditing) {
@@ -1041,11 +2538,517 @@ function updateActionButtons(index: number, isEditing = false) {
     actionsContainer.appendChild(cancelButton);
   } else {
     const editButton = createBtn('edit', () => enterEditMode(index));
+    const deleteButton = createBtn('delete', () => deleteElement(index));
+    editButton.title = 'Edit';
+    deleteButton.title = 'Delete';
     actionsContainer.appendChild(editButton);
+    actionsContainer.appendChild(deleteButton);
+  }
+}
+
+// --- Adding, Deleting & Merging Elements ---
+
+function setReviewStatus(message: string | null, isError = false) {
+  reviewStatus.textContent = message || '';
+  reviewStatus.classList.toggle('hidden', !message);
+  reviewStatus.classList.toggle('error-message', isError);
+}
+
+function updateMergeButton() {
+  mergeButton.disabled = selectedElements.size < 2;
+}
+
+/**
+ * Re-renders the results after elements were added, removed or merged.
+ */
+function refreshResultsAfterChange() {
+  selectedElements.forEach((element) => {
+    if (!extractedData.includes(element)) selectedElements.delete(element);
+  });
+  clearBoundingBoxes();
+  displayMarkdownResults(extractedData, activeDocument?.warnings || []);
+  refreshJsonResults();
+  exportButton.disabled = extractedData.length === 0;
+  updateMergeButton();
+}
+
+/**
+ * Inserts elements at their reading-order positions. Elements are mutated
+ * in place on `extractedData`, which is shared with the active document.
+ */
+function insertElements(newElements: ExtractedElement[]) {
+  if (currentlyEditing) {
+    exitEditMode(false);
+  }
+  // Positions are worked out against the list as it will be after the
+  // preceding insertions.
+  const elements = [...extractedData];
+  const splices = newElements.map((element): ElementSplice => {
+    const index = element.bounding_box
+      ? getReadingOrderIndex(elements, element.page, element.bounding_box)
+      : elements.length;
+    elements.splice(index, 0, element);
+    return { index, removed: [], inserted: [element] };
+  });
+  commitEdit(
+    newElements.length === 1
+      ? `Added ${describeElement(newElements[0])}`
+      : `Added ${newElements.length} elements`,
+    splices,
+  );
+}
+
+function deleteElement(index: number) {
+  if (currentlyEditing) {
+    exitEditMode(false);
+  }
+  const element = extractedData[index];
+  commitEdit(`Deleted ${describeElement(element)}`, [
+    { index, removed: [element], inserted: [] },
+  ]);
+}
+
+function mergeSelectedElements() {
+  if (currentlyEditing) {
+    exitEditMode(false);
+  }
+  const selected = extractedData.filter((element) =>
+    selectedElements.has(element),
+  );
+  if (selected.length < 2) return;
+  if (new Set(selected.map((element) => element.page)).size > 1) {
+    setReviewStatus('Only elements on the same page can be merged.', true);
+    return;
+  }
+
+  // Remove from the back so earlier indexes stay valid, then insert the
+  // group where the first merged element was.
+  const indexes = selected.map((element) => extractedData.indexOf(element));
+  const splices: ElementSplice[] = [...indexes]
+    .reverse()
+    .map((index) => ({
+      index,
+      removed: [extractedData[index]],
+      inserted: [],
+    }));
+  splices.push({
+    index: indexes[0],
+    removed: [],
+    inserted: [mergeIntoFieldGroup(selected)],
+  });
+  selectedElements.clear();
+  commitEdit(`Merged ${selected.length} elements into a group`, splices);
+  setReviewStatus(`Merged ${selected.length} elements into a field group.`);
+}
+
+// --- Undo / Redo ---
+
+function describeElement(element: ExtractedElement) {
+  return element.label
+    ? `${element.type} "${element.label}"`
+    : element.type.replace('_', ' ');
+}
+
+/**
+ * Applies a change to the active document's elements and records it in its
+ * history so it can be undone.
+ */
+function commitEdit(label: string, splices: ElementSplice[]) {
+  if (!activeDocument || activeDocument.extractedData !== extractedData) return;
+  const entry: HistoryEntry = { label, splices };
+  performEdit(activeDocument.history, extractedData, entry);
+  showHistoryChange(entry);
+}
+
+function showHistoryChange(entry: HistoryEntry) {
+  if (isReplacement(entry)) {
+    // Value and box edits only need their own cards re-rendered.
+    selectedElements.forEach((element) => {
+      if (!extractedData.includes(element)) selectedElements.delete(element);
+    });
+    entry.splices.forEach(({ index }) => refreshResultItem(index));
+    clearBoundingBoxes();
+    refreshJsonResults();
+    updateMergeButton();
+  } else {
+    refreshResultsAfterChange();
+  }
+  renderHistory();
+  drawRedactions();
+  persistDocument(activeDocument);
+}
+
+function undoLastEdit() {
+  if (!activeDocument || activeDocument.extractedData !== extractedData) return;
+  if (currentlyEditing) {
+    exitEditMode(false);
+  }
+  const entry = undoEdit(activeDocument.history, extractedData);
+  if (entry) {
+    showHistoryChange(entry);
+    setReviewStatus(`Undone: ${entry.label}`);
+  }
+}
+
+function redoLastEdit() {
+  if (!activeDocument || activeDocument.extractedData !== extractedData) return;
+  if (currentlyEditing) {
+    exitEditMode(false);
+  }
+  const entry = redoEdit(activeDocument.history, extractedData);
+  if (entry) {
+    showHistoryChange(entry);
+    setReviewStatus(`Redone: ${entry.label}`);
+  }
+}
+
+/**
+ * Undoes or redoes edits until `position` entries are applied; 0 restores
+ * the model's output.
+ */
+function jumpToHistoryPosition(position: number) {
+  const history = activeDocument?.history;
+  if (!history || activeDocument.extractedData !== extractedData) return;
+  if (currentlyEditing) {
+    exitEditMode(false);
+  }
+  while (history.position > position) undoEdit(history, extractedData);
+  while (history.position < position) redoEdit(history, extractedData);
+  refreshResultsAfterChange();
+  renderHistory();
+  drawRedactions();
+  setReviewStatus(null);
+  persistDocument(activeDocument);
+}
+
+function renderHistory() {
+  const history =
+    activeDocument?.status === 'done' ? activeDocument.history : null;
+  undoButton.disabled = !history || history.position === 0;
+  redoButton.disabled = !history || history.position >= history.entries.length;
+  historyList.innerHTML = '';
+  historyPanel.classList.toggle('hidden', !history);
+  if (!history) return;
+
+  const labels = ['Model output', ...history.entries.map((e) => e.label)];
+  labels.forEach((label, position) => {
+    const item = document.createElement('li');
+    item.className = 'history-entry';
+    item.classList.toggle('current', position === history.position);
+    item.classList.toggle('undone', position > history.position);
+    item.textContent = label;
+    item.addEventListener('click', () => jumpToHistoryPosition(position));
+    historyList.appendChild(item);
+  });
+}
+
+function setDrawRegionMode(active: boolean) {
+  isDrawingRegion = active;
+  drawRegionButton.classList.toggle('active', active);
+  drawRegionButton.textContent = active ? 'Cancel drawing' : 'Draw region';
+  previewContainer.classList.toggle('drawing-region', active);
+  if (active) {
+    if (currentlyEditing) {
+      exitEditMode(false);
+    }
+    closeRegionPanel();
+    clearBoundingBoxes();
+    setReviewStatus('Drag a rectangle on the document to add an element.');
   }
 }
 
-function makeBoxEditable(boxDiv: HTMLElement) {
+/**
+ * Lets the user drag out a rectangle on a page while draw-region mode is on,
+ * then opens the region panel for it.
+ */
+function startRegionDraw(event: MouseEvent) {
+  const pageEl = (event.target as HTMLElement).closest<HTMLElement>(
+    '[data-page-number]',
+  );
+  if (!isDrawingRegion || !pageEl) return;
+  event.preventDefault();
+
+  const pageNum = parseInt(pageEl.dataset.pageNumber, 10);
+  const pageRect = pageEl.getBoundingClientRect();
+  const containerRect = previewContainer.getBoundingClientRect();
+  // Converts a mouse position to container pixels, clamped to the page.
+  const toContainerPoint = (e: MouseEvent) => ({
+    x:
+      Math.min(Math.max(e.clientX, pageRect.left), pageRect.right) -
+      containerRect.left +
+      previewContainer.scrollLeft,
+    y:
+      Math.min(Math.max(e.clientY, pageRect.top), pageRect.bottom) -
+      containerRect.top +
+      previewContainer.scrollTop,
+  });
+
+  const start = toContainerPoint(event);
+  let bounds = { left: start.x, top: start.y, width: 0, height: 0 };
+  const regionDiv: OverlayDiv = document.createElement('div');
+  regionDiv.className = 'draw-region';
+  previewContainer.appendChild(regionDiv);
+
+  const doDraw = (moveEvent: MouseEvent) => {
+    const point = toContainerPoint(moveEvent);
+    bounds = {
+      left: Math.min(start.x, point.x),
+      top: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y),
+    };
+    regionDiv.style.left = `${bounds.left}px`;
+    regionDiv.style.top = `${bounds.top}px`;
+    regionDiv.style.width = `${bounds.width}px`;
+    regionDiv.style.height = `${bounds.height}px`;
+  };
+
+  const stopDraw = () => {
+    document.removeEventListener('mousemove', doDraw);
+    document.removeEventListener('mouseup', stopDraw);
+
+    const box =
+      bounds.width >= MIN_REGION_SIZE && bounds.height >= MIN_REGION_SIZE
+        ? repairBox(pixelsToNormalized(bounds, pageNum))
+        : null;
+    if (!box) {
+      regionDiv.remove();
+      return;
+    }
+    regionDiv.region = { page: pageNum, box };
+    setDrawRegionMode(false);
+    showRegionPanel({ page: pageNum, box });
+  };
+
+  document.addEventListener('mousemove', doDraw);
+  document.addEventListener('mouseup', stopDraw);
+}
+
+// --- Review Queue ---
+
+function openReviewQueue() {
+  const elements = getReviewQueue(extractedData);
+  if (elements.length === 0) {
+    setReviewStatus(
+      `No unreviewed elements below ${HIGH_CONFIDENCE * 100}% confidence.`,
+    );
+    return;
+  }
+  if (currentlyEditing) {
+    exitEditMode(false);
+  }
+  setDrawRegionMode(false);
+  closeRegionPanel();
+  setReviewStatus(null);
+  setActiveTab('markdown');
+  reviewQueue = { elements, position: 0 };
+  reviewQueueButton.classList.add('active');
+  showReviewQueueItem();
+}
+
+function closeReviewQueue() {
+  reviewQueue = null;
+  reviewQueueButton.classList.remove('active');
+  reviewQueuePanel.innerHTML = '';
+  reviewQueuePanel.classList.add('hidden');
+}
+
+/**
+ * Moves through the queue. Elements edited or deleted since the queue was
+ * built count as reviewed and are skipped; stepping past the end closes it.
+ */
+function stepReviewQueue(step: 1 | -1) {
+  if (!reviewQueue) return;
+  let position = reviewQueue.position + step;
+  while (
+    position >= 0 &&
+    position < reviewQueue.elements.length &&
+    !extractedData.includes(reviewQueue.elements[position])
+  ) {
+    position += step;
+  }
+  if (position >= reviewQueue.elements.length) {
+    closeReviewQueue();
+    clearBoundingBoxes();
+    setReviewStatus('All low-confidence elements were reviewed.');
+    return;
+  }
+  if (position < 0) return;
+  reviewQueue.position = position;
+  showReviewQueueItem();
+}
+
+// Highlights the current element of the queue and its result card.
+function showReviewQueueItem() {
+  const { elements, position } = reviewQueue;
+  const element = elements[position];
+  const index = extractedData.indexOf(element);
+
+  reviewQueuePanel.innerHTML = '';
+  reviewQueuePanel.classList.remove('hidden');
+  const title = document.createElement('strong');
+  title.textContent = `Low confidence ${position + 1} of ${elements.length}`;
+  const description = document.createElement('span');
+  description.className = 'review-queue-description';
+  description.textContent = `${describeElement(element)}, page ${
+    element.page
+  }, ${Math.round(getElementConfidence(element) * 100)}%`;
+
+  const previousButton = createEditorAddButton('Previous', () =>
+    stepReviewQueue(-1),
+  );
+  previousButton.disabled = position === 0;
+  const nextButton = createEditorAddButton(
+    position === elements.length - 1 ? 'Finish' : 'Next',
+    () => stepReviewQueue(1),
+  );
+  const doneButton = createEditorAddButton('Done', () => {
+    closeReviewQueue();
+    clearBoundingBoxes();
+  });
+
+  const actionsRow = document.createElement('div');
+  actionsRow.className = 'element-editor-row';
+  actionsRow.append(previousButton, nextButton, doneButton);
+  reviewQueuePanel.append(title, description, actionsRow);
+
+  if (index !== -1) {
+    drawBoundingBox(element, true);
+    highlightMarkdownItem(index);
+  }
+}
+
+function closeRegionPanel() {
+  pendingRegion = null;
+  regionPanel.innerHTML = '';
+  regionPanel.classList.add('hidden');
+  previewContainer.querySelector('.draw-region')?.remove();
+}
+
+/**
+ * Shows the form for a drawn region: the element can be typed in by hand or
+ * extracted from the cropped region by the model.
+ */
+function showRegionPanel(region: PageRegion) {
+  pendingRegion = region;
+  regionPanel.innerHTML = '';
+  regionPanel.classList.remove('hidden');
+  setReviewStatus(null);
+  setActiveTab('markdown');
+
+  const title = document.createElement('strong');
+  title.textContent = `New element on page ${region.page}`;
+
+  const typeSelect = document.createElement('select');
+  ELEMENT_TYPES.filter(
+    (type): type is ValueElementType =>
+      type !== 'field_group' && type !== 'table',
+  ).forEach((type) => {
+    const option = document.createElement('option');
+    option.value = type;
+    option.textContent = type;
+    typeSelect.appendChild(option);
+  });
+  const labelInput = createEditorInput('', 'Label', () => {});
+  const valueInput = createEditorInput('', 'Value', () => {});
+
+  const fieldsRow = document.createElement('div');
+  fieldsRow.className = 'element-editor-row';
+  fieldsRow.append(typeSelect, labelInput, valueInput);
+
+  const addButton = createEditorAddButton('Add element', () => {
+    insertElements([
+      {
+        type: typeSelect.value as ValueElementType,
+        label: labelInput.value,
+        value: valueInput.value,
+        page: region.page,
+        bounding_box: region.box,
+        edited: true,
+      },
+    ]);
+    closeRegionPanel();
+  });
+  const extractRegionButton = createEditorAddButton(
+    'Extract with model',
+    async () => {
+      const doc = activeDocument;
+      addButton.disabled = true;
+      extractRegionButton.disabled = true;
+      setReviewStatus('Extracting the region...');
+      try {
+        const elements = await extractRegion(region);
+        // Drop the result if another document or region took over meanwhile.
+        if (doc !== activeDocument || pendingRegion !== region) return;
+        if (elements.length === 0) {
+          setReviewStatus('The model found nothing in this region.', true);
+          return;
+        }
+        insertElements(elements);
+        closeRegionPanel();
+        setReviewStatus(
+          `Added ${elements.length} element(s) from the region.`,
+        );
+      } catch (error) {
+        console.error('Error extracting region:', error);
+        setReviewStatus(
+          `Could not extract the region. ${
+            error instanceof Error ? error.message : ''
+          }`,
+          true,
+        );
+      } finally {
+        addButton.disabled = false;
+        extractRegionButton.disabled = false;
+      }
+    },
+  );
+  const cancelButton = createEditorAddButton('Cancel', closeRegionPanel);
+
+  const actionsRow = document.createElement('div');
+  actionsRow.className = 'element-editor-row';
+  actionsRow.append(addButton, extractRegionButton, cancelButton);
+
+  const form = document.createElement('div');
+  form.className = 'element-editor';
+  form.append(title, fieldsRow, actionsRow);
+  regionPanel.appendChild(form);
+  labelInput.focus();
+}
+
+/**
+ * Sends just the cropped region to the model and maps the elements it finds
+ * back onto the page. Added elements are marked as edited.
+ */
+async function extractRegion(region: PageRegion) {
+  const pages = captureDocumentPages();
+  let pageImage: HTMLCanvasElement | HTMLImageElement;
+  try {
+    pageImage = await getPageImage(pages, region.page);
+  } finally {
+    releaseDocumentPages(pages);
+  }
+  checkDocumentPages(pages);
+
+  const { elements } = await extractDocument(
+    [
+      {
+        inlineData: {
+          mimeType: 'image/jpeg',
+          data: cropPageRegion(pageImage, region.box),
+        },
+      },
+    ],
+    null,
+    parseInt(ocrSlider.value, 10),
+    1,
+    REGION_NOTE,
+  );
+  elements.forEach((element) => (element.edited = true));
+  return regionToPageElements(elements, region);
+}
+
+function makeBoxEditable(boxDiv: EditableBoxDiv) {
   const handles = ['nw', 'n', 'ne', 'e', 'se', 's', 'sw', 'w'];
   handles.forEach((handleName) => {
     const handle = document.createElement('div');
@@ -1058,7 +3061,7 @@ function makeBoxEditable(boxDiv: HTMLElement) {
   boxDiv.addEventListener('mousedown', (e) => initDrag(e, boxDiv));
 }
 
-function initDrag(e: MouseEvent, boxDiv: HTMLElement) {
+function initDrag(e: MouseEvent, boxDiv: EditableBoxDiv) {
   e.preventDefault();
   e.stopPropagation();
 
@@ -1070,6 +3073,7 @@ function initDrag(e: MouseEvent, boxDiv: HTMLElement) {
   const doDrag = (moveEvent: MouseEvent) => {
     const dx = moveEvent.clientX - startX;
     const dy = moveEvent.clientY - startY;
+    boxDiv.wasMoved = true;
     boxDiv.style.left = `${startLeft + dx}px`;
     boxDiv.style.top = `${startTop + dy}px`;
   };
@@ -1083,7 +3087,7 @@ function initDrag(e: MouseEvent, boxDiv: HTMLElement) {
   document.addEventListener('mouseup', stopDrag);
 }
 
-function initResize(e: MouseEvent, boxDiv: HTMLElement, handle: string) {
+function initResize(e: MouseEvent, boxDiv: EditableBoxDiv, handle: string) {
   e.preventDefault();
   e.stopPropagation();
 
@@ -1097,6 +3101,7 @@ function initResize(e: MouseEvent, boxDiv: HTMLElement, handle: string) {
   const doResize = (moveEvent: MouseEvent) => {
     const dx = moveEvent.clientX - startX;
     const dy = moveEvent.clientY - startY;
+    boxDiv.wasMoved = true;
 
     if (handle.includes('e')) {
       boxDiv.style.width = `${startWidth + dx}px`;
@@ -1123,38 +3128,579 @@ function initResize(e: MouseEvent, boxDiv: HTMLElement, handle: string) {
   document.addEventListener('mouseup', stopResize);
 }
 
-function updateElementFromEditableBoxes(elementIndex: number) {
-  const element = extractedData[elementIndex];
+function updateElementFromEditableBoxes(element: ExtractedElement) {
   if (!element) return;
 
   const editableBoxes = document.querySelectorAll(
     '.bounding-box.editable',
-  ) as NodeListOf<HTMLElement>;
+  ) as NodeListOf<EditableBoxDiv>;
 
   editableBoxes.forEach((boxDiv) => {
-    const boxIndex = (boxDiv as any).boxIndex;
-    const originalBoxRef = (boxDiv as any).originalBoxData;
+    const boxIndex = boxDiv.boxIndex;
+    const originalBoxRef = boxDiv.originalBoxData;
+
+    // Untouched boxes keep their exact coordinates.
+    if (originalBoxRef === undefined || !boxDiv.wasMoved) return;
+
+    const newPixelBounds = {
+      left: boxDiv.offsetLeft,
+      top: boxDiv.offsetTop,
+      width: boxDiv.offsetWidth,
+      height: boxDiv.offsetHeight,
+    };
+
+    const newNormalizedBox = pixelsToNormalized(newPixelBounds, element.page);
+
+    // Update the correct box in the element data
+    if (
+      element.line_boxes &&
+      element.line_boxes.length > 0 &&
+      boxIndex !== undefined
+    ) {
+      element.line_boxes[boxIndex] = newNormalizedBox;
+    } else if (element.bounding_box) {
+      element.bounding_box = newNormalizedBox;
+    }
+  });
+}
+
+// --- Redaction ---
+
+function setRedactionMode(active: boolean) {
+  redactionMode = active;
+  redactButton.classList.toggle('active', active);
+  drawRedactions();
+  if (active) {
+    const count = extractedData.filter(
+      (element) => getElementPii(element).length > 0,
+    ).length;
+    setReviewStatus(
+      `${count} element(s) with personal data are blacked out, and exports mask their values.`,
+    );
+  } else {
+    setReviewStatus(null);
+  }
+}
+
+/**
+ * Redraws the black boxes over personal data on the preview pages. They are
+ * kept apart from the highlight boxes, which come and go on hover.
+ */
+function drawRedactions() {
+  previewContainer
+    .querySelectorAll('.redaction-box')
+    .forEach((box) => box.remove());
+  if (!redactionMode) return;
+
+  getRedactionRegions(extractedData).forEach((region) => {
+    const redactionDiv = document.createElement('div');
+    redactionDiv.className = 'redaction-box';
+    if (positionOverlay(redactionDiv, region)) {
+      previewContainer.appendChild(redactionDiv);
+    }
+  });
+}
+
+// The elements exports are built from: masked in redaction mode.
+function getExportElements(data: ExtractedElement[]) {
+  return redactionMode ? redactElements(data) : data;
+}
+
+// The pages of the active document, captured before an export or region
+// extraction waits for pages to render, so that a document opened meanwhile
+// can neither mix its pages in nor be masked with another's redactions.
+interface DocumentPages {
+  doc: BatchDocument | null;
+  fileName: string;
+  pdf: any;
+  image: HTMLImageElement | null;
+  pageDimensions: { width: number; height: number }[];
+  // The regions to black out, in redaction mode
+  redactions: PageRegion[] | null;
+}
+
+/**
+ * Captures the active document's pages for an export. The pdf.js document
+ * is held until releaseDocumentPages, even if another one is opened.
+ */
+function captureDocumentPages(): DocumentPages {
+  pdfDocuments.hold(pdfDocument);
+  return {
+    doc: activeDocument,
+    fileName: file?.name || '',
+    pdf: pdfDocument,
+    image: previewContainer.querySelector<HTMLImageElement>(
+      'img[data-page-number]',
+    ),
+    pageDimensions,
+    redactions: redactionMode ? getRedactionRegions(extractedData) : null,
+  };
+}
+
+function releaseDocumentPages(pages: DocumentPages) {
+  pdfDocuments.release(pages.pdf);
+}
+
+// Throws if another document was opened since the pages were captured.
+function checkDocumentPages(pages: DocumentPages) {
+  if (pages.doc !== activeDocument || pages.pdf !== pdfDocument) {
+    throw new Error('Another document was opened in the meantime.');
+  }
+}
+
+/**
+ * A page as exports see it: in redaction mode, a copy with the personal data
+ * painted over.
+ */
+async function getExportPageSource(pages: DocumentPages, pageNumber: number) {
+  const source = await getPageImage(pages, pageNumber);
+  if (!pages.redactions) return source;
+  const canvas = document.createElement('canvas');
+  [canvas.width, canvas.height] = getPageImageSize(pages, pageNumber);
+  const context = canvas.getContext('2d');
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  context.fillStyle = '#000';
+  pages.redactions
+    .filter(({ page }) => page === pageNumber)
+    .forEach(({ box }) =>
+      context.fillRect(
+        box.left * canvas.width,
+        box.top * canvas.height,
+        (box.right - box.left) * canvas.width,
+        (box.bottom - box.top) * canvas.height,
+      ),
+    );
+  return canvas;
+}
+
+/**
+ * A page to take images from: the preview image, or the PDF page rendered at
+ * EXPORT_RENDER_SCALE, whether or not the preview has rendered it.
+ */
+async function getPageImage(
+  pages: DocumentPages,
+  pageNumber: number,
+): Promise<HTMLCanvasElement | HTMLImageElement> {
+  if (pages.pdf) {
+    const page = await pages.pdf.getPage(pageNumber);
+    return renderPdfPage(page, getExportRenderScale(pages, pageNumber));
+  }
+  if (!pages.image || pageNumber !== 1) {
+    throw new Error('The page is not in the preview.');
+  }
+  return pages.image;
+}
+
+// The size in pixels of the images getPageImage returns.
+function getPageImageSize(
+  pages: DocumentPages,
+  pageNumber: number,
+): [number, number] {
+  const { width, height } = pages.pageDimensions[pageNumber - 1];
+  if (!pages.pdf) return [width, height];
+  const scale = getExportRenderScale(pages, pageNumber);
+  return [Math.floor(width * scale), Math.floor(height * scale)];
+}
+
+// EXPORT_RENDER_SCALE, or less for pages too large to render at it.
+function getExportRenderScale(pages: DocumentPages, pageNumber: number) {
+  return capRenderScale(
+    EXPORT_RENDER_SCALE,
+    pages.pageDimensions[pageNumber - 1],
+  );
+}
+
+// --- Preview Zoom ---
+
+/**
+ * Zooms the preview to `target`, or fits it to the width or page size of the
+ * preview. The point of the page under `anchor` (client coordinates, the
+ * middle of the preview by default) stays where it is; fitting a whole page
+ * shows the page at that point from its top.
+ */
+function setZoom(
+  target: number | 'fit-width' | 'fit-page',
+  anchor?: { x: number; y: number },
+) {
+  if (
+    pageDimensions.length === 0 ||
+    (typeof target === 'number' &&
+      zoomMode === 'custom' &&
+      clampZoom(target) === zoom)
+  ) {
+    return;
+  }
+  const containerRect = previewContainer.getBoundingClientRect();
+  const point = anchor || {
+    x: containerRect.left + containerRect.width / 2,
+    y: containerRect.top + containerRect.height / 2,
+  };
+  const pages = [
+    ...previewContainer.querySelectorAll<HTMLElement>('[data-page-number]'),
+  ];
+  const pageElement =
+    pages.find((page) => page.getBoundingClientRect().bottom >= point.y) ||
+    pages[pages.length - 1];
+  if (!pageElement) return;
+  const pageRect = pageElement.getBoundingClientRect();
+  let fractionX = (point.x - pageRect.left) / pageRect.width;
+  let fractionY = (point.y - pageRect.top) / pageRect.height;
+  if (target === 'fit-page') {
+    point.y =
+      containerRect.top +
+      parseFloat(getComputedStyle(previewContainer).paddingTop);
+    fractionY = 0;
+  }
+
+  if (typeof target === 'number') {
+    zoomMode = 'custom';
+    zoom = clampZoom(target);
+  } else {
+    zoomMode = target;
+  }
+  applyZoom();
+
+  const newRect = pageElement.getBoundingClientRect();
+  previewContainer.scrollLeft +=
+    newRect.left + fractionX * newRect.width - point.x;
+  previewContainer.scrollTop +=
+    newRect.top + fractionY * newRect.height - point.y;
+}
+
+/**
+ * Sizes the pages for the zoom, which follows the preview's size unless set
+ * by hand. Boxes drawn over the pages are moved along, and PDF pages are
+ * rendered again at the new resolution once zooming pauses.
+ */
+function applyZoom() {
+  if (pageDimensions.length > 0 && zoomMode !== 'custom') {
+    const style = getComputedStyle(previewContainer);
+    const width =
+      previewContainer.clientWidth -
+      parseFloat(style.paddingLeft) -
+      parseFloat(style.paddingRight);
+    // The preview grows with its pages up to its maximum height.
+    const height =
+      (parseFloat(style.maxHeight) || previewContainer.offsetHeight) -
+      (previewContainer.offsetHeight - previewContainer.clientHeight) -
+      parseFloat(style.paddingTop) -
+      parseFloat(style.paddingBottom);
+    if (width > 0) {
+      zoom = getFitZoom(pageDimensions, zoomMode, width, height);
+    }
+  }
+
+  // Boxes moved in the editor are only known in pixels of the old size.
+  previewContainer
+    .querySelectorAll<EditableBoxDiv>('.bounding-box.editable')
+    .forEach((boxDiv) => {
+      if (!boxDiv.wasMoved || !boxDiv.region) return;
+      const box = pixelsToNormalized(
+        {
+          left: boxDiv.offsetLeft,
+          top: boxDiv.offsetTop,
+          width: boxDiv.offsetWidth,
+          height: boxDiv.offsetHeight,
+        },
+        boxDiv.region.page,
+      );
+      if (box) boxDiv.region = { page: boxDiv.region.page, box };
+    });
+
+  previewContainer
+    .querySelectorAll<HTMLElement>('[data-page-number]')
+    .forEach(sizePreviewPage);
+  previewContainer
+    .querySelectorAll<OverlayDiv>('.bounding-box, .draw-region')
+    .forEach((div) => {
+      if (div.region) positionOverlay(div, div.region);
+    });
+  drawRedactions();
+  updateZoomControls();
+  updateCurrentThumbnail();
+
+  if (pdfDocument) {
+    clearTimeout(pageRenderTimer);
+    pageRenderTimer = setTimeout(() => {
+      pageRenderScale = getRenderScale(zoom, window.devicePixelRatio || 1);
+      renderNearbyPages();
+    }, 200);
+  }
+}
+
+function sizePreviewPage(pageElement: HTMLElement) {
+  const pageDim = pageDimensions[Number(pageElement.dataset.pageNumber) - 1];
+  if (!pageDim) return;
+  pageElement.style.width = `${pageDim.width * zoom}px`;
+  pageElement.style.height = `${pageDim.height * zoom}px`;
+}
+
+function updateZoomControls() {
+  const hasPages = pageDimensions.length > 0;
+  zoomLevelSpan.textContent = `${Math.round(zoom * 100)}%`;
+  zoomOutButton.disabled = !hasPages || zoom <= MIN_ZOOM;
+  zoomInButton.disabled = !hasPages || zoom >= MAX_ZOOM;
+  fitWidthButton.disabled = !hasPages;
+  fitPageButton.disabled = !hasPages;
+  fitWidthButton.classList.toggle('active', zoomMode === 'fit-width');
+  fitPageButton.classList.toggle('active', zoomMode === 'fit-page');
+}
+
+/**
+ * Pans the preview while a page is dragged. Drawing a region and moving
+ * boxes in the editor take their drags first.
+ */
+function startPan(event: MouseEvent) {
+  const pageEl = (event.target as HTMLElement).closest('[data-page-number]');
+  if (event.button !== 0 || isDrawingRegion || !pageEl) return;
+  event.preventDefault(); // Stops images from being dragged out
+  const start = {
+    x: event.clientX,
+    y: event.clientY,
+    scrollLeft: previewContainer.scrollLeft,
+    scrollTop: previewContainer.scrollTop,
+  };
+  previewContainer.classList.add('panning');
+
+  const doPan = (moveEvent: MouseEvent) => {
+    previewContainer.scrollLeft =
+      start.scrollLeft - (moveEvent.clientX - start.x);
+    previewContainer.scrollTop =
+      start.scrollTop - (moveEvent.clientY - start.y);
+  };
+  const stopPan = () => {
+    document.removeEventListener('mousemove', doPan);
+    document.removeEventListener('mouseup', stopPan);
+    previewContainer.classList.remove('panning');
+  };
+  document.addEventListener('mousemove', doPan);
+  document.addEventListener('mouseup', stopPan);
+}
+
+// --- Page Rendering ---
+
+// A PDF page in the preview: a placeholder of the page's size, holding a
+// canvas while the page is near the view.
+interface PreviewPage extends HTMLDivElement {
+  renderedScale?: number;
+}
+
+// Starts rendering the PDF pages of the preview as they come near the view.
+function observePreviewPages() {
+  pageRenderScale = getRenderScale(zoom, window.devicePixelRatio || 1);
+  pageObserver = new IntersectionObserver(
+    (entries) => {
+      entries.forEach(({ target, isIntersecting }) => {
+        if (isIntersecting) {
+          nearbyPages.add(target as PreviewPage);
+        } else {
+          nearbyPages.delete(target as PreviewPage);
+        }
+      });
+      renderNearbyPages();
+    },
+    { root: previewContainer, rootMargin: NEARBY_PAGES_MARGIN },
+  );
+  previewContainer
+    .querySelectorAll('.preview-page')
+    .forEach((pageElement) => pageObserver.observe(pageElement));
+}
+
+// Stops rendering pages and gives their canvases back to the pool.
+function stopObservingPages() {
+  pageObserver?.disconnect();
+  pageObserver = null;
+  thumbnailObserver?.disconnect();
+  thumbnailObserver = null;
+  clearTimeout(pageRenderTimer);
+  nearbyPages.clear();
+  previewContainer
+    .querySelectorAll<HTMLCanvasElement>('.preview-page > canvas')
+    .forEach((canvas) => canvasPool.release(canvas));
+  thumbnailStrip.innerHTML = '';
+  thumbnailStrip.classList.add('hidden');
+}
+
+/**
+ * Renders the nearby pages that have no canvas, or one at another scale,
+ * those in view first, and gives back the canvases of pages that left.
+ * Pages are rendered one at a time; calls made meanwhile start another pass
+ * once the current page is done.
+ */
+async function renderNearbyPages() {
+  if (isRenderingPages) {
+    renderPagesAgain = true;
+    return;
+  }
+  isRenderingPages = true;
+  try {
+    do {
+      renderPagesAgain = false;
+      await renderPagesPass();
+    } while (renderPagesAgain);
+  } catch (error) {
+    console.error('Error rendering pages:', error);
+  } finally {
+    isRenderingPages = false;
+  }
+}
+
+async function renderPagesPass() {
+  const pdf = pdfDocument;
+  if (!pdf) return;
+  pdfDocuments.hold(pdf);
+  try {
+    await renderPendingPages(pdf);
+  } finally {
+    pdfDocuments.release(pdf);
+  }
+}
+
+async function renderPendingPages(pdf: any) {
+  previewContainer
+    .querySelectorAll<PreviewPage>('.preview-page')
+    .forEach((pageElement) => {
+      const canvas = pageElement.querySelector('canvas');
+      if (canvas && !nearbyPages.has(pageElement)) {
+        canvasPool.release(canvas);
+        pageElement.renderedScale = undefined;
+      }
+    });
+
+  // Large pages may render below the zoom's scale; see capRenderScale.
+  const scaleOf = (pageElement: HTMLElement) =>
+    capRenderScale(
+      pageRenderScale,
+      pageDimensions[Number(pageElement.dataset.pageNumber) - 1],
+    );
+  const containerRect = previewContainer.getBoundingClientRect();
+  const distanceFromView = (pageElement: HTMLElement) => {
+    const rect = pageElement.getBoundingClientRect();
+    return Math.max(
+      0,
+      containerRect.top - rect.bottom,
+      rect.top - containerRect.bottom,
+    );
+  };
+  const pending = [...nearbyPages]
+    .filter((pageElement) => pageElement.renderedScale !== scaleOf(pageElement))
+    .sort((a, b) => distanceFromView(a) - distanceFromView(b));
+
+  for (const pageElement of pending) {
+    const page = await pdf.getPage(Number(pageElement.dataset.pageNumber));
+    const scale = scaleOf(pageElement);
+    const canvas = await renderPdfPage(page, scale, canvasPool.acquire());
+    if (pdf !== pdfDocument) {
+      canvasPool.release(canvas);
+      return;
+    }
+    if (nearbyPages.has(pageElement)) {
+      // The old canvas is only swapped out now, so the page never blanks.
+      const previous = pageElement.querySelector('canvas');
+      if (previous) canvasPool.release(previous);
+      pageElement.appendChild(canvas);
+      pageElement.renderedScale = scale;
+    } else {
+      canvasPool.release(canvas);
+    }
+    if (renderPagesAgain) return;
+  }
+}
+
+/**
+ * Fills the thumbnail strip of a PDF of several pages. Thumbnails are sized
+ * from the page dimensions and rendered as the strip scrolls to them.
+ */
+function renderThumbnails() {
+  const pdf = pdfDocument;
+  const showStrip = pdf && pageDimensions.length > 1;
+  thumbnailStrip.classList.toggle('hidden', !showStrip);
+  if (!showStrip) return;
+
+  thumbnailObserver = new IntersectionObserver(
+    (entries, observer) => {
+      entries.forEach(({ target, isIntersecting }) => {
+        if (!isIntersecting) return;
+        observer.unobserve(target);
+        thumbnailQueue = thumbnailQueue
+          .then(() => renderThumbnail(pdf, target as HTMLElement))
+          .catch((error) => console.error('Error rendering pages:', error));
+      });
+    },
+    { root: thumbnailStrip, rootMargin: NEARBY_PAGES_MARGIN },
+  );
+  pageDimensions.forEach(({ width, height }, index) => {
+    const pageNumber = index + 1;
+    const thumbnail = document.createElement('button');
+    thumbnail.className = 'thumbnail';
+    thumbnail.dataset.thumbnailPage = String(pageNumber);
+    thumbnail.title = `Page ${pageNumber}`;
+    const frame = document.createElement('div');
+    frame.className = 'thumbnail-frame';
+    frame.style.width = `${THUMBNAIL_WIDTH}px`;
+    frame.style.height = `${(height / width) * THUMBNAIL_WIDTH}px`;
+    const label = document.createElement('span');
+    label.textContent = String(pageNumber);
+    thumbnail.append(frame, label);
+    thumbnail.addEventListener('click', () => scrollToPage(pageNumber));
+    thumbnailStrip.appendChild(thumbnail);
+    thumbnailObserver.observe(thumbnail);
+  });
+}
 
-    if (originalBoxRef === undefined) return;
+async function renderThumbnail(pdf: any, thumbnail: HTMLElement) {
+  if (pdf !== pdfDocument) return;
+  pdfDocuments.hold(pdf);
+  try {
+    const page = await pdf.getPage(Number(thumbnail.dataset.thumbnailPage));
+    const { width } = page.getViewport({ scale: 1 });
+    const canvas = await renderPdfPage(
+      page,
+      (THUMBNAIL_WIDTH * (window.devicePixelRatio || 1)) / width,
+    );
+    thumbnail.querySelector('.thumbnail-frame').appendChild(canvas);
+  } finally {
+    pdfDocuments.release(pdf);
+  }
+}
 
-    const newPixelBounds = {
-      left: boxDiv.offsetLeft,
-      top: boxDiv.offsetTop,
-      width: boxDiv.offsetWidth,
-      height: boxDiv.offsetHeight,
-    };
+function scrollToPage(pageNumber: number) {
+  const pageElement = previewContainer.querySelector<HTMLElement>(
+    `[data-page-number='${pageNumber}']`,
+  );
+  if (!pageElement) return;
+  previewContainer.scrollTop =
+    pageElement.offsetTop -
+    parseFloat(getComputedStyle(previewContainer).paddingTop);
+}
 
-    const newNormalizedBox = pixelsToNormalized(newPixelBounds, element.page);
+// Marks the thumbnail of the page at the top of the view, scrolling the
+// strip to it if needed.
+function updateCurrentThumbnail() {
+  if (thumbnailStrip.classList.contains('hidden')) return;
+  const viewTop =
+    previewContainer.scrollTop + previewContainer.clientHeight / 3;
+  let current = '1';
+  previewContainer
+    .querySelectorAll<HTMLElement>('.preview-page')
+    .forEach((pageElement) => {
+      if (pageElement.offsetTop <= viewTop) {
+        current = pageElement.dataset.pageNumber;
+      }
+    });
 
-    // Update the correct box in the element data
-    if (
-      element.line_boxes &&
-      element.line_boxes.length > 0 &&
-      boxIndex !== undefined
+  thumbnailStrip.querySelectorAll<HTMLElement>('.thumbnail').forEach((item) => {
+    const isCurrent = item.dataset.thumbnailPage === current;
+    item.classList.toggle('current', isCurrent);
+    if (!isCurrent) return;
+    if (item.offsetTop < thumbnailStrip.scrollTop) {
+      thumbnailStrip.scrollTop = item.offsetTop;
+    } else if (
+      item.offsetTop + item.offsetHeight >
+      thumbnailStrip.scrollTop + thumbnailStrip.clientHeight
     ) {
-      element.line_boxes[boxIndex] = newNormalizedBox;
-    } else if (element.bounding_box) {
-      element.bounding_box = newNormalizedBox;
+      thumbnailStrip.scrollTop =
+        item.offsetTop + item.offsetHeight - thumbnailStrip.clientHeight;
     }
   });
 }
@@ -1212,7 +3758,7 @@ function getCoordinateSystem(previewElement: HTMLElement, pageNum: number) {
  * Converts normalized coordinates to absolute pixel values for display.
  */
 function normalizedToPixels(
-  box: any,
+  box: BoundingBox,
   pageNum: number,
   coordSystem: ReturnType<typeof getCoordinateSystem>,
 ) {
@@ -1234,10 +3780,35 @@ function normalizedToPixels(
   };
 }
 
+/**
+ * Places a box over the region of a preview page. Returns false if the page
+ * is not in the preview.
+ */
+function positionOverlay(div: OverlayDiv, region: PageRegion) {
+  const pageElement = previewContainer.querySelector<HTMLElement>(
+    `[data-page-number='${region.page}']`,
+  );
+  const coordSystem =
+    pageElement && getCoordinateSystem(pageElement, region.page);
+  if (!coordSystem) return false;
+  const {
+    pixels: { left, top, width, height },
+  } = normalizedToPixels(region.box, region.page, coordSystem);
+  div.style.left = `${left}px`;
+  div.style.top = `${top}px`;
+  div.style.width = `${width}px`;
+  div.style.height = `${height}px`;
+  div.region = region;
+  return true;
+}
+
 /**
  * Converts absolute pixel values back to normalized coordinates.
  */
-function pixelsToNormalized(pixelBounds: any, pageNum: number) {
+function pixelsToNormalized(
+  pixelBounds: { left: number; top: number; width: number; height: number },
+  pageNum: number,
+): BoundingBox | null {
   const previewElement = document.querySelector(
     `#preview-container [data-page-number='${pageNum}']`,
   ) as HTMLElement;
@@ -1253,7 +3824,7 @@ function pixelsToNormalized(pixelBounds: any, pageNum: number) {
   const absoluteLeft = pixelBounds.left - relativeLeft;
   const absoluteTop = pixelBounds.top - relativeTop;
 
-  const norm = {
+  const norm: BoundingBox = {
     left: (absoluteLeft - offsetX) / (contentWidth * scale),
     top: (absoluteTop - offsetY) / (contentHeight * scale),
     right:
@@ -1266,13 +3837,12 @@ function pixelsToNormalized(pixelBounds: any, pageNum: number) {
 
 // --- Export Functions ---
 // Note: These are simplified implementations.
-function exportAsCsv(data: any[]) {
-  const headers = ['type', 'label', 'value', 'page'];
-  let csvRows = [headers.join(',')];
+function buildCsvRows(data: ExtractedElement[]): string[] {
+  const csvRows: string[] = [];
 
   data.forEach((element) => {
     if (element.type === 'field_group' && element.fields) {
-      element.fields.forEach((field: { label: string; value: string }) => {
+      element.fields.forEach((field) => {
         const row = [
           'field',
           `"${element.label} - ${field.label}"`,
@@ -1283,7 +3853,7 @@ function exportAsCsv(data: any[]) {
       });
     } else if (element.type === 'table' && element.table_data) {
       const tableHeader = element.table_data.headers.join(' | ');
-      element.table_data.rows.forEach((tableRow: string[]) => {
+      element.table_data.rows.forEach((tableRow) => {
         const row = [
           'table_row',
           `"${element.label} (${tableHeader})"`,
@@ -1296,26 +3866,39 @@ function exportAsCsv(data: any[]) {
       const row = [
         element.type,
         `"${element.label || ''}"`,
-        `"${element.value || ''}"`,
+        `"${getElementValue(element)}"`,
         element.page,
       ].join(',');
       csvRows.push(row);
     }
   });
 
-  const csvContent = csvRows.join('\n');
-  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-  const link = document.createElement('a');
-  const url = URL.createObjectURL(blob);
-  link.setAttribute('href', url);
-  link.setAttribute('download', `${file?.name || 'export'}.csv`);
-  link.style.visibility = 'hidden';
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
+  return csvRows;
+}
+
+function exportAsCsv(data: ExtractedElement[]) {
+  const headers = ['type', 'label', 'value', 'page'];
+  const csvRows = [headers.join(','), ...buildCsvRows(data)];
+  downloadFile(
+    csvRows.join('\n'),
+    'text/csv;charset=utf-8;',
+    `${file?.name || 'export'}.csv`,
+  );
+}
+
+// Exports the results as shown in the JSON tab.
+function exportAsJson(data: ExtractedElement[]) {
+  const result = resultSchema
+    ? elementsToUserResult(resultSchema, data)
+    : { extracted_elements: data };
+  downloadFile(
+    JSON.stringify(result, null, 2),
+    'application/json',
+    `${file?.name || 'export'}.json`,
+  );
 }
 
-function exportAsTxt(data: any[]) {
+function exportAsTxt(data: ExtractedElement[]) {
   let textContent = '';
   const docTitle = `Extraction Results for: ${file?.name || 'document'}\n`;
   textContent += docTitle;
@@ -1326,29 +3909,408 @@ function exportAsTxt(data: any[]) {
     if (element.label) {
       textContent += `Label: ${element.label}\n`;
     }
-    if (element.value) {
-      textContent += `Value: ${element.value}\n`;
+    if (getElementValue(element)) {
+      textContent += `Value: ${getElementValue(element)}\n`;
     }
     if (element.type === 'field_group' && element.fields) {
-      element.fields.forEach((field: { label: string; value: string }) => {
+      element.fields.forEach((field) => {
         textContent += `  - ${field.label}: ${field.value}\n`;
       });
     }
     if (element.type === 'table' && element.table_data) {
       textContent += 'Table Data:\n';
       textContent += `  Headers: ${element.table_data.headers.join(' | ')}\n`;
-      element.table_data.rows.forEach((row: string[]) => {
+      element.table_data.rows.forEach((row) => {
         textContent += `  Row: ${row.join(' | ')}\n`;
       });
     }
     textContent += '---\n\n';
   });
 
-  const blob = new Blob([textContent], { type: 'text/plain' });
+  downloadFile(textContent, 'text/plain', `${file?.name || 'export'}.txt`);
+}
+
+function exportAsXlsx(data: ExtractedElement[]) {
+  downloadFile(
+    createWorkbook(elementsToSheets(data)),
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    `${file?.name || 'export'}.xlsx`,
+  );
+}
+
+/**
+ * Crops figures and logos from the pages, for the reconstructed document.
+ * Each page is rendered once for all its figures. Elements on pages the
+ * document does not have are left out and fall back to their description.
+ */
+async function cropFigureImages(
+  pages: DocumentPages,
+  data: ExtractedElement[],
+) {
+  const images = new Map<ExtractedElement, FigureImage>();
+  const figures = data.filter(
+    (element) =>
+      (element.type === 'figure' || element.type === 'logo') &&
+      element.bounding_box &&
+      pages.pageDimensions[element.page - 1],
+  );
+  for (const pageNumber of new Set(figures.map((element) => element.page))) {
+    const source = await getExportPageSource(pages, pageNumber);
+    checkDocumentPages(pages);
+    const [sourceWidth, sourceHeight] = getPageImageSize(pages, pageNumber);
+    figures
+      .filter((element) => element.page === pageNumber)
+      .forEach((element) => {
+        const box = element.bounding_box;
+        images.set(element, {
+          data: cropPageRegion(source, box),
+          width: Math.max(1, Math.round((box.right - box.left) * sourceWidth)),
+          height: Math.max(
+            1,
+            Math.round((box.bottom - box.top) * sourceHeight),
+          ),
+        });
+      });
+  }
+  return images;
+}
+
+// Exports the results as a document in reading order.
+async function exportReconstruction(
+  data: ExtractedElement[],
+  format: 'md' | 'html' | 'docx',
+) {
+  const pages = captureDocumentPages();
+  try {
+    const title = pages.fileName || 'Document';
+    const blocks = reconstructDocument(data, {
+      title,
+      images: await cropFigureImages(pages, data),
+    });
+    const fileName = `${pages.fileName || 'export'}.${format}`;
+    if (format === 'md') {
+      downloadFile(
+        toMarkdown(blocks),
+        'text/markdown;charset=utf-8;',
+        fileName,
+      );
+    } else if (format === 'html') {
+      downloadFile(toHtml(blocks, title), 'text/html;charset=utf-8;', fileName);
+    } else {
+      downloadFile(
+        toDocx(blocks),
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        fileName,
+      );
+    }
+  } catch (error) {
+    console.error('Error exporting the document:', error);
+    setReviewStatus(
+      `The document could not be exported: ${
+        error instanceof Error ? error.message : error
+      }`,
+      true,
+    );
+  } finally {
+    releaseDocumentPages(pages);
+  }
+}
+
+/**
+ * The page images that interchange exports refer to, with their size in
+ * pixels and, if `withImages`, their content as base64 JPEG. Pages are
+ * rendered one at a time, so only one is held in memory as a canvas.
+ */
+async function collectPageImages(pages: DocumentPages, withImages: boolean) {
+  const pageImages: { page: PageImage; data: string | null }[] = [];
+  const pageCount = pages.pageDimensions.length;
+  for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+    const [width, height] = getPageImageSize(pages, pageNumber);
+    const page: PageImage = {
+      page: pageNumber,
+      width,
+      height,
+      fileName: `images/page-${pageNumber}.jpg`,
+    };
+    const data = withImages
+      ? cropPageRegion(await getExportPageSource(pages, pageNumber), {
+          left: 0,
+          top: 0,
+          right: 1,
+          bottom: 1,
+        })
+      : null;
+    checkDocumentPages(pages);
+    pageImages.push({ page, data });
+  }
+  return pageImages;
+}
+
+/**
+ * Exports the results as annotations: COCO and Label Studio as a zip with
+ * the page images, hOCR and ALTO as a single file.
+ */
+async function exportInterchange(
+  data: ExtractedElement[],
+  format: InterchangeFormat,
+) {
+  const documentPages = captureDocumentPages();
+  try {
+    const name = documentPages.fileName || 'export';
+    const withImages = format === 'coco' || format === 'label-studio';
+    const pageImages = await collectPageImages(documentPages, withImages);
+    const pages = pageImages.map(({ page }) => page);
+    const images = pageImages.map(({ page, data: imageData }) => ({
+      name: page.fileName,
+      data: Uint8Array.from(atob(imageData || ''), (char) =>
+        char.charCodeAt(0),
+      ),
+    }));
+
+    if (format === 'coco') {
+      downloadFile(
+        createZip([
+          {
+            name: 'annotations.json',
+            data: JSON.stringify(toCoco(data, pages), null, 2),
+          },
+          ...images,
+        ]),
+        'application/zip',
+        `${name}-coco.zip`,
+      );
+    } else if (format === 'label-studio') {
+      downloadFile(
+        createZip([
+          {
+            name: 'tasks.json',
+            data: JSON.stringify(toLabelStudio(data, pages), null, 2),
+          },
+          { name: 'label-config.xml', data: LABEL_STUDIO_CONFIG },
+          ...images,
+        ]),
+        'application/zip',
+        `${name}-label-studio.zip`,
+      );
+    } else if (format === 'hocr') {
+      downloadFile(
+        toHocr(data, pages, name),
+        'application/xhtml+xml;charset=utf-8;',
+        `${name}.hocr`,
+      );
+    } else {
+      downloadFile(
+        toAlto(data, pages, name),
+        'application/xml;charset=utf-8;',
+        `${name}.alto.xml`,
+      );
+    }
+  } catch (error) {
+    console.error('Error exporting annotations:', error);
+    setReviewStatus(
+      `The annotations could not be exported: ${
+        error instanceof Error ? error.message : error
+      }`,
+      true,
+    );
+  } finally {
+    releaseDocumentPages(documentPages);
+  }
+}
+
+// The number of pages of a document that has not been rendered yet.
+async function countPages(documentFile: File) {
+  if (documentFile.type !== 'application/pdf') return 1;
+  const pdf = await pdfjsLib.getDocument({
+    data: atob(await readFileAsBase64(documentFile)),
+  }).promise;
+  const count = pdf.numPages;
+  pdf.destroy();
+  return count;
+}
+
+/**
+ * Replaces a document's results with results loaded from a file: extraction
+ * JSON saved earlier or elsewhere, or COCO, Label Studio, hOCR or ALTO
+ * annotations. They are validated like model output and can then be
+ * reviewed and exported without calling the model. Throws if the file cannot
+ * be read; returns a summary of what was imported.
+ */
+async function importResults(
+  doc: BatchDocument,
+  text: string,
+  sourceName: string,
+) {
+  if (isInProgress(doc.status)) {
+    throw new Error('The document is being extracted.');
+  }
+  const imported = parseAnnotations(text, {
+    fileName: doc.file.name,
+    schemas: userSchemas,
+    activeSchema: getActiveUserSchema(),
+  });
+  const pageCount = doc.pageDimensions.length || (await countPages(doc.file));
+  if (doc === activeDocument && currentlyEditing) {
+    exitEditMode(false);
+  }
+  const { elements, warnings } = validateElements(imported.elements, {
+    pageCount,
+  });
+  doc.extractedData = elements;
+  doc.history = createEditHistory();
+  doc.feedback = createDocumentFeedback();
+  doc.warnings = warnings;
+  doc.resultSchema = imported.schema;
+  doc.error = null;
+  doc.status = 'done';
+  handleDocumentUpdate(doc);
+  return `Imported ${elements.length} element(s) from ${
+    INTERCHANGE_FORMAT_NAMES[imported.format]
+  } in '${sourceName}'.`;
+}
+
+// Loads a results file chosen with "Import results" into a document.
+async function importResultsFile(doc: BatchDocument, resultsFile: File) {
+  try {
+    const summary = await importResults(
+      doc,
+      await resultsFile.text(),
+      resultsFile.name,
+    );
+    uploadError.classList.add('hidden');
+    if (doc === activeDocument) setReviewStatus(summary);
+  } catch (error) {
+    console.error('Error importing results:', error);
+    uploadError.textContent = `The results could not be imported: ${
+      error instanceof Error ? error.message : error
+    }`;
+    uploadError.classList.remove('hidden');
+  }
+}
+
+/**
+ * Exports the active document as a PDF: either with an invisible text layer
+ * over the extracted elements, or as a review copy with highlight
+ * annotations. In redaction mode the pages are the blacked-out page images
+ * rather than the original file, so nothing masked can be recovered from it.
+ */
+async function exportAsPdf(kind: 'searchable' | 'review') {
+  if (!activeDocument || extractedData.length === 0) return;
+  const doc = activeDocument;
+  const elements = getExportElements(extractedData);
+  const pages = captureDocumentPages();
+  try {
+    // pdf-lib is large, so it is only loaded once a PDF is exported.
+    const { createImagePdf, createReviewPdf, createSearchablePdf } =
+      await import('./pdf');
+    const source = pages.redactions
+      ? {
+          bytes: await createImagePdf(
+            (await collectPageImages(pages, true)).map(({ page, data }) => ({
+              data: Uint8Array.from(atob(data), (char) => char.charCodeAt(0)),
+              width: page.width,
+              height: page.height,
+            })),
+          ),
+          mimeType: 'application/pdf',
+        }
+      : { bytes: await doc.file.arrayBuffer(), mimeType: doc.file.type };
+    const pdf =
+      kind === 'searchable'
+        ? await createSearchablePdf(source, elements)
+        : await createReviewPdf(source, elements);
+    downloadFile(
+      pdf,
+      'application/pdf',
+      `${doc.file.name}-${kind}${pages.redactions ? '-redacted' : ''}.pdf`,
+    );
+  } catch (error) {
+    console.error('Error exporting the PDF:', error);
+    setReviewStatus(
+      `The PDF could not be created: ${
+        error instanceof Error ? error.message : error
+      }`,
+      true,
+    );
+  } finally {
+    releaseDocumentPages(pages);
+  }
+}
+
+/**
+ * Exports every document of the batch as one JSON file. Results extracted
+ * with a user-defined schema are keyed by field name.
+ */
+function exportBatchAsJson(docs: BatchDocument[]) {
+  const exported = docs.map((doc) => ({
+    file_name: doc.file.name,
+    status: doc.status,
+    ...(doc.error && doc.status === 'failed' ? { error: doc.error } : {}),
+    ...(doc.resultSchema
+      ? {
+          schema: doc.resultSchema.name,
+          result: elementsToUserResult(
+            doc.resultSchema,
+            getExportElements(doc.extractedData),
+          ),
+        }
+      : { extracted_elements: getExportElements(doc.extractedData) }),
+  }));
+  downloadFile(
+    JSON.stringify({ documents: exported }, null, 2),
+    'application/json',
+    'batch-export.json',
+  );
+}
+
+/**
+ * Exports the results of all finished documents as one CSV file, with the
+ * source file name in the first column.
+ */
+function exportBatchAsCsv(docs: BatchDocument[]) {
+  const headers = ['document', 'type', 'label', 'value', 'page'];
+  const csvRows = [headers.join(',')];
+  docs
+    .filter((doc) => doc.status === 'done')
+    .forEach((doc) => {
+      buildCsvRows(getExportElements(doc.extractedData)).forEach((row) => {
+        csvRows.push(`"${doc.file.name}",${row}`);
+      });
+    });
+  downloadFile(
+    csvRows.join('\n'),
+    'text/csv;charset=utf-8;',
+    'batch-export.csv',
+  );
+}
+
+/**
+ * Exports reviewer feedback for every finished document as JSONL, one record
+ * per line: ratings, and corrections paired with the original model output.
+ */
+function exportFeedbackAsJsonl(docs: BatchDocument[]) {
+  const exportedAt = new Date().toISOString();
+  const lines = docs
+    .filter((doc) => doc.status === 'done')
+    .flatMap((doc) =>
+      buildFeedbackRecords({
+        fileName: doc.file.name,
+        elements: doc.extractedData,
+        history: doc.history,
+        feedback: doc.feedback,
+      }),
+    )
+    .map((record) => ({ ...record, exported_at: exportedAt }));
+  downloadFile(toJsonl(lines), 'application/x-ndjson', 'feedback.jsonl');
+}
+
+function downloadFile(content: BlobPart, mimeType: string, fileName: string) {
+  const blob = new Blob([content], { type: mimeType });
   const url = URL.createObjectURL(blob);
   const link = document.createElement('a');
   link.setAttribute('href', url);
-  link.setAttribute('download', `${file?.name || 'export'}.txt`);
+  link.setAttribute('download', fileName);
+  link.style.visibility = 'hidden';
   document.body.appendChild(link);
   link.click();
   document.body.removeChild(link);
@@ -1362,49 +4324,428 @@ function displaySchema() {
   schemaContainer.innerHTML = `
     <div class="schema-quick-start">
       <div class="schema-tabs">
-        <button class="schema-tab-button active">
+        <button class="schema-tab-button active" data-schema-mode="suggest">
           <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor"><path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm1 17h-2v-2h2v2zm2.07-7.75l-.9.92C13.45 12.9 13 13.5 13 15h-2v-.5c0-1.1.45-2.1 1.17-2.83l1.24-1.26c.37-.36.59-.86.59-1.41 0-1.1-.9-2-2-2s-2 .9-2 2H8c0-2.21 1.79-4 4-4s4 1.79 4 4c0 .88-.36 1.68-.93 2.25z"></path></svg>
           Smart Suggestion
         </button>
-        <button class="schema-tab-button">
+        <button class="schema-tab-button" data-schema-mode="prompt">
           <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor"><path d="M3 17.25V21h3.75L17.81 9.94l-3.75-3.75L3 17.25zM20.71 7.04c.39-.39.39-1.02 0-1.41l-2.34-2.34c-.39-.39-1.02-.39-1.41 0l-1.83 1.83 3.75 3.75 1.83-1.83z"></path></svg>
           Prompt to Schema
         </button>
       </div>
-      <div class="schema-fields">
-        <h4>Schema for 'extracted_elements'</h4>
-        <div class="schema-item">
-          <span>extracted_elements</span>
-          <span class="schema-type array">ARRAY</span>
-        </div>
-        <div class="schema-item nested">
-          <span>(item)</span>
-          <span class="schema-type object">OBJECT</span>
-        </div>
-        <div class="schema-item nested-2">
-          <span>type</span>
-          <span class="schema-type string">STRING</span>
-        </div>
-        <div class="schema-item nested-2">
-          <span>label</span>
-          <span class="schema-type string">STRING</span>
+      <div class="schema-assistant">
+        <div class="schema-assistant-panel active" data-schema-panel="suggest">
+          <p>Analyze the uploaded document and propose a schema for its document type.</p>
+          <button id="schema-suggest-button" class="schema-action-button primary">Suggest schema</button>
         </div>
-         <div class="schema-item nested-2">
-          <span>value</span>
-          <span class="schema-type string">STRING</span>
-        </div>
-        <div class="schema-item nested-2">
-          <span>page</span>
-          <span class="schema-type integer">INTEGER</span>
-        </div>
-         <div class="schema-item nested-2">
-          <span>bounding_box</span>
-          <span class="schema-type object">OBJECT</span>
+        <div class="schema-assistant-panel" data-schema-panel="prompt">
+          <textarea id="schema-prompt-input" rows="3" placeholder="e.g. extract vendor, invoice number, line items with qty and price"></textarea>
+          <button id="schema-prompt-button" class="schema-action-button primary">Generate schema</button>
         </div>
+        <span id="schema-assistant-status" class="schema-assistant-status hidden"></span>
       </div>
+      <div class="schema-selector">
+        <label for="schema-select">Extraction schema</label>
+        <select id="schema-select"></select>
+        <button id="schema-new-button" class="schema-action-button">New schema</button>
+      </div>
+      <div id="schema-fields" class="schema-fields"></div>
     </div>
   `;
+
+  const schemaSelect = document.getElementById(
+    'schema-select',
+  ) as HTMLSelectElement;
+  schemaSelect.addEventListener('change', () => {
+    activeSchemaId = schemaSelect.value;
+    renderSchemaFields();
+    persistSettings();
+  });
+
+  document
+    .getElementById('schema-new-button')
+    .addEventListener('click', () => {
+      const schema = createUserSchema('Untitled schema');
+      userSchemas.push(schema);
+      saveUserSchemas(userSchemas);
+      activeSchemaId = schema.id;
+      populateSchemaSelect();
+      renderSchemaFields();
+      persistSettings();
+    });
+
+  schemaContainer.querySelectorAll('.schema-tab-button').forEach((button) => {
+    button.addEventListener('click', () => {
+      const mode = (button as HTMLElement).dataset.schemaMode;
+      schemaContainer.querySelectorAll('.schema-tab-button').forEach((b) => {
+        b.classList.toggle('active', b === button);
+      });
+      schemaContainer
+        .querySelectorAll('.schema-assistant-panel')
+        .forEach((panel) => {
+          panel.classList.toggle(
+            'active',
+            (panel as HTMLElement).dataset.schemaPanel === mode,
+          );
+        });
+    });
+  });
+
+  document
+    .getElementById('schema-suggest-button')
+    .addEventListener('click', () => {
+      if (!fileData) {
+        setSchemaAssistantStatus('Upload a document first.', true);
+        return;
+      }
+      proposeSchema([
+        { text: SMART_SUGGESTION_PROMPT },
+        { inlineData: fileData },
+      ]);
+    });
+
+  document
+    .getElementById('schema-prompt-button')
+    .addEventListener('click', () => {
+      const promptInput = document.getElementById(
+        'schema-prompt-input',
+      ) as HTMLTextAreaElement;
+      const description = promptInput.value.trim();
+      if (!description) {
+        setSchemaAssistantStatus(
+          'Describe the information you want to extract.',
+          true,
+        );
+        return;
+      }
+      proposeSchema([{ text: buildPromptToSchemaPrompt(description) }]);
+    });
+
+  populateSchemaSelect();
+  renderSchemaFields();
+}
+
+function setSchemaAssistantStatus(message: string | null, isError = false) {
+  const status = document.getElementById('schema-assistant-status');
+  status.textContent = message || '';
+  status.classList.toggle('hidden', !message);
+  status.classList.toggle('error-message', isError);
+}
+
+/**
+ * Asks the model to propose a schema, then adds it to the saved schemas and
+ * selects it so it can be refined in the editor and used for extraction.
+ */
+async function proposeSchema(parts: any[]) {
+  const buttons = document.querySelectorAll(
+    '.schema-assistant .schema-action-button',
+  ) as NodeListOf<HTMLButtonElement>;
+  buttons.forEach((button) => (button.disabled = true));
+  setSchemaAssistantStatus('Generating schema...');
+
+  try {
+    const proposal = await getActiveProvider().generateJson({
+      kind: 'schema_proposal',
+      model: modelSelect.value,
+      parts,
+      responseSchema: SCHEMA_PROPOSAL_SCHEMA,
+    });
+    const schema = proposalToUserSchema(proposal);
+    if (schema.fields.length === 0) {
+      throw new Error('The model did not propose any fields.');
+    }
+
+    updateRecordingsLink();
+    userSchemas.push(schema);
+    saveUserSchemas(userSchemas);
+    activeSchemaId = schema.id;
+    populateSchemaSelect();
+    renderSchemaFields();
+    persistSettings();
+    setSchemaAssistantStatus(
+      `Proposed '${schema.name}'. Review the fields below; it will be used for the next extraction.`,
+    );
+  } catch (error) {
+    console.error('Error generating schema:', error);
+    setSchemaAssistantStatus(
+      'Could not generate a schema. Please try again or rephrase your description.',
+      true,
+    );
+  } finally {
+    buttons.forEach((button) => (button.disabled = false));
+  }
+}
+
+function getActiveUserSchema(): UserSchema | null {
+  return userSchemas.find((schema) => schema.id === activeSchemaId) || null;
+}
+
+function populateSchemaSelect() {
+  const schemaSelect = document.getElementById(
+    'schema-select',
+  ) as HTMLSelectElement;
+  schemaSelect.innerHTML = '';
+
+  const defaultOption = document.createElement('option');
+  defaultOption.value = DEFAULT_SCHEMA_ID;
+  defaultOption.textContent = 'All document elements (default)';
+  schemaSelect.appendChild(defaultOption);
+
+  userSchemas.forEach((schema) => {
+    const option = document.createElement('option');
+    option.value = schema.id;
+    option.textContent = schema.name;
+    schemaSelect.appendChild(option);
+  });
+
+  if (!getActiveUserSchema()) {
+    activeSchemaId = DEFAULT_SCHEMA_ID;
+  }
+  schemaSelect.value = activeSchemaId;
+}
+
+function renderSchemaFields() {
+  const fieldsContainer = document.getElementById('schema-fields');
+  const userSchema = getActiveUserSchema();
+
+  if (!userSchema) {
+    fieldsContainer.innerHTML = `
+      <h4>Schema for 'extracted_elements'</h4>
+      <div class="schema-item">
+        <span>extracted_elements</span>
+        <span class="schema-type array">ARRAY</span>
+      </div>
+      <div class="schema-item nested">
+        <span>(item)</span>
+        <span class="schema-type object">OBJECT</span>
+      </div>
+      <div class="schema-item nested-2">
+        <span>type</span>
+        <span class="schema-type string">STRING</span>
+      </div>
+      <div class="schema-item nested-2">
+        <span>label</span>
+        <span class="schema-type string">STRING</span>
+      </div>
+       <div class="schema-item nested-2">
+        <span>value</span>
+        <span class="schema-type string">STRING</span>
+      </div>
+      <div class="schema-item nested-2">
+        <span>page</span>
+        <span class="schema-type integer">INTEGER</span>
+      </div>
+       <div class="schema-item nested-2">
+        <span>bounding_box</span>
+        <span class="schema-type object">OBJECT</span>
+      </div>
+    `;
+    return;
+  }
+
+  // Edit a copy so that unsaved changes never reach an extraction run.
+  const draft: UserSchema = JSON.parse(JSON.stringify(userSchema));
+  fieldsContainer.innerHTML = '';
+
+  const nameInput = document.createElement('input');
+  nameInput.type = 'text';
+  nameInput.className = 'schema-name-input';
+  nameInput.placeholder = 'Schema name';
+  nameInput.value = draft.name;
+  nameInput.addEventListener('input', () => (draft.name = nameInput.value));
+  fieldsContainer.appendChild(nameInput);
+
+  const fieldList = document.createElement('div');
+  fieldList.className = 'schema-field-list';
+  fieldsContainer.appendChild(fieldList);
+
+  const renderFieldRows = () => {
+    fieldList.innerHTML = '';
+    renderFieldList(fieldList, draft.fields, 1, renderFieldRows);
+  };
+  renderFieldRows();
+
+  const schemaError = document.createElement('span');
+  schemaError.className = 'error-message hidden';
+
+  const actions = document.createElement('div');
+  actions.className = 'schema-editor-actions';
+
+  const addButton = document.createElement('button');
+  addButton.className = 'schema-action-button';
+  addButton.textContent = 'Add field';
+  addButton.addEventListener('click', () => {
+    draft.fields.push(createSchemaField());
+    renderFieldRows();
+  });
+
+  const saveButton = document.createElement('button');
+  saveButton.className = 'schema-action-button primary';
+  saveButton.textContent = 'Save schema';
+  saveButton.addEventListener('click', () => {
+    const error = validateUserSchema(draft);
+    schemaError.textContent = error || '';
+    schemaError.classList.toggle('hidden', !error);
+    if (error) return;
+
+    const index = userSchemas.findIndex((schema) => schema.id === draft.id);
+    userSchemas[index] = draft;
+    saveUserSchemas(userSchemas);
+    populateSchemaSelect();
+    renderSchemaFields();
+  });
+
+  const deleteButton = document.createElement('button');
+  deleteButton.className = 'schema-action-button danger';
+  deleteButton.textContent = 'Delete schema';
+  deleteButton.addEventListener('click', () => {
+    userSchemas = userSchemas.filter((schema) => schema.id !== draft.id);
+    saveUserSchemas(userSchemas);
+    activeSchemaId = DEFAULT_SCHEMA_ID;
+    populateSchemaSelect();
+    renderSchemaFields();
+    persistSettings();
+  });
+
+  actions.append(addButton, saveButton, deleteButton);
+  fieldsContainer.append(actions, schemaError);
+}
+
+/**
+ * Renders one level of the schema tree editor. Object and array fields get
+ * their child fields rendered, indented, underneath them.
+ */
+function renderFieldList(
+  container: HTMLElement,
+  fields: SchemaField[],
+  depth: number,
+  rerender: () => void,
+) {
+  fields.forEach((field, fieldIndex) => {
+    const row = document.createElement('div');
+    row.className = 'schema-field-row';
+    row.style.marginLeft = `${(depth - 1) * 1.5}rem`;
+
+    const fieldName = document.createElement('input');
+    fieldName.type = 'text';
+    fieldName.placeholder = 'Field name';
+    fieldName.value = field.name;
+    fieldName.addEventListener('input', () => (field.name = fieldName.value));
+
+    const fieldType = document.createElement('select');
+    SCHEMA_FIELD_TYPES.forEach((type) => {
+      // Keep the tree within the depth the response schema supports.
+      if (isContainerType(type) && depth >= MAX_SCHEMA_DEPTH) return;
+      const option = document.createElement('option');
+      option.value = type;
+      option.textContent = type.toUpperCase();
+      fieldType.appendChild(option);
+    });
+    fieldType.value = field.type;
+    fieldType.addEventListener('change', () => {
+      field.type = fieldType.value as SchemaFieldType;
+      if (isContainerType(field.type)) {
+        field.fields = field.fields?.length
+          ? field.fields
+          : [createSchemaField()];
+      } else {
+        delete field.fields;
+      }
+      rerender();
+    });
+
+    const fieldDescription = document.createElement('input');
+    fieldDescription.type = 'text';
+    fieldDescription.placeholder = 'Description';
+    fieldDescription.value = field.description;
+    fieldDescription.addEventListener(
+      'input',
+      () => (field.description = fieldDescription.value),
+    );
+
+    const requiredLabel = document.createElement('label');
+    requiredLabel.className = 'schema-required';
+    const requiredCheckbox = document.createElement('input');
+    requiredCheckbox.type = 'checkbox';
+    requiredCheckbox.checked = field.required;
+    requiredCheckbox.addEventListener(
+      'change',
+      () => (field.required = requiredCheckbox.checked),
+    );
+    requiredLabel.append(requiredCheckbox, 'Required');
+
+    const removeButton = document.createElement('button');
+    removeButton.className = 'result-action-btn cancel-btn';
+    removeButton.title = 'Remove field';
+    removeButton.appendChild(
+      document.getElementById('icon-cancel').cloneNode(true),
+    );
+    removeButton.addEventListener('click', () => {
+      fields.splice(fieldIndex, 1);
+      rerender();
+    });
+
+    row.append(
+      fieldName,
+      fieldType,
+      fieldDescription,
+      requiredLabel,
+      removeButton,
+    );
+    container.appendChild(row);
+
+    if (isContainerType(field.type)) {
+      renderFieldList(container, field.fields || [], depth + 1, rerender);
+
+      const addChildButton = document.createElement('button');
+      addChildButton.className = 'schema-action-button schema-add-child';
+      addChildButton.style.marginLeft = `${depth * 1.5}rem`;
+      addChildButton.textContent =
+        field.type === 'array' ? 'Add item field' : 'Add child field';
+      addChildButton.addEventListener('click', () => {
+        field.fields = [...(field.fields || []), createSchemaField()];
+        rerender();
+      });
+      container.appendChild(addChildButton);
+    }
+  });
+}
+
+/**
+ * Returns a user-facing error message if the schema cannot be used for
+ * extraction, or null if it is valid.
+ */
+function validateUserSchema(schema: UserSchema): string | null {
+  if (!schema.name.trim()) {
+    return 'Please give the schema a name.';
+  }
+  if (schema.fields.length === 0) {
+    return 'A schema needs at least one field.';
+  }
+  return validateSchemaFields(schema.fields);
+}
+
+function validateSchemaFields(fields: SchemaField[]): string | null {
+  const keys = fields.map((field) => toFieldKey(field.name));
+  if (keys.some((key) => !key)) {
+    return 'Every field needs a name containing letters or digits.';
+  }
+  const duplicate = keys.find((key, i) => keys.indexOf(key) !== i);
+  if (duplicate) {
+    return `The field name '${duplicate}' is used more than once.`;
+  }
+  for (const field of fields) {
+    if (!isContainerType(field.type)) continue;
+    if (!field.fields?.length) {
+      return `The ${field.type} field '${field.name}' needs at least one child field.`;
+    }
+    const error = validateSchemaFields(field.fields);
+    if (error) return error;
+  }
+  return null;
 }
 
 // Display the schema on initial load
-displaySchema();
\ No newline at end of file
+displaySchema();
+populateProviderSelect();
+restoreSession();
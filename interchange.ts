@@ -0,0 +1,801 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {
+  BoundingBox,
+  ELEMENT_TYPES,
+  ExtractedElement,
+  elementToText,
+  getElementBoxes,
+  layoutElementLines,
+  unionBoxes,
+} from './elements';
+import {
+  UserSchema,
+  UserSchemaResult,
+  toFieldKey,
+  userResultToElements,
+} from './schemas';
+import { escapeXml } from './zip';
+
+// --- Annotation Interchange ---
+// COCO, Label Studio, hOCR and ALTO: formats that annotation and OCR tools
+// read and write. Exports place the results on the rendered page images, in
+// pixels; imports turn annotations (and results saved as extraction JSON)
+// back into raw elements with normalized boxes, for validateElements.
+// Elements without a box are not exported.
+
+// A rendered page that the exported coordinates refer to.
+export interface PageImage {
+  page: number;
+  // Size of the image in pixels
+  width: number;
+  height: number;
+  // Path of the image inside the export, e.g. "images/page-1.jpg"
+  fileName: string;
+}
+
+export type InterchangeFormat =
+  | 'json'
+  | 'coco'
+  | 'label-studio'
+  | 'hocr'
+  | 'alto';
+
+export const INTERCHANGE_FORMAT_NAMES: Record<InterchangeFormat, string> = {
+  json: 'extraction JSON',
+  coco: 'COCO',
+  'label-studio': 'Label Studio',
+  hocr: 'hOCR',
+  alto: 'ALTO',
+};
+
+// Elements that are pictures rather than text.
+const VISUAL_TYPES = ['figure', 'logo'];
+
+// Separates table cells in text lines.
+const CELL_SEPARATOR = ' | ';
+
+// A box in pixels, as [x, y, width, height].
+type PixelRect = [number, number, number, number];
+
+const round = (value: number, digits = 2) =>
+  Math.round(value * 10 ** digits) / 10 ** digits;
+
+function toPixelRect(box: BoundingBox, page: PageImage): PixelRect {
+  const x = box.left * page.width;
+  const y = box.top * page.height;
+  return [
+    round(x),
+    round(y),
+    round(box.right * page.width - x),
+    round(box.bottom * page.height - y),
+  ];
+}
+
+function fromPixelRect(
+  [x, y, width, height]: number[],
+  size: { width: number; height: number },
+): BoundingBox {
+  return {
+    left: round(x / size.width, 5),
+    top: round(y / size.height, 5),
+    right: round((x + width) / size.width, 5),
+    bottom: round((y + height) / size.height, 5),
+  };
+}
+
+// The box that represents an element as a whole.
+function elementBox(element: ExtractedElement) {
+  return element.bounding_box || unionBoxes(getElementBoxes(element));
+}
+
+/**
+ * The text of an element line by line. Tables list their header row first,
+ * with cells separated by " | ", so that they can be read back.
+ */
+function contentLines(element: ExtractedElement) {
+  if (element.type === 'table') {
+    return [element.table_data.headers, ...element.table_data.rows].map(
+      (row) => row.join(CELL_SEPARATOR),
+    );
+  }
+  return elementToText(element).split('\n');
+}
+
+/**
+ * The content of an element of `type` read back from its text lines: group
+ * fields from "label: value" lines, a table from rows of " | "-separated
+ * cells (the first being the headers), otherwise the text as the value.
+ */
+function contentFromLines(type: string, lines: string[]) {
+  if (type === 'field_group') {
+    return {
+      fields: lines
+        .filter((line) => line.trim())
+        .map((line) => {
+          const separator = line.indexOf(': ');
+          return separator === -1
+            ? { label: '', value: line }
+            : {
+                label: line.slice(0, separator),
+                value: line.slice(separator + 2),
+              };
+        }),
+    };
+  }
+  if (type === 'table') {
+    const [headers = [], ...rows] = lines
+      .filter((line) => line.trim())
+      .map((line) => line.split(CELL_SEPARATOR).map((cell) => cell.trim()));
+    return { table_data: { headers, rows } };
+  }
+  return { value: lines.join('\n') };
+}
+
+// What an element holds besides its type, page and boxes.
+function elementContent(element: ExtractedElement) {
+  const content: Record<string, unknown> = {};
+  if (element.label) content.label = element.label;
+  if (element.type === 'field_group') {
+    content.fields = element.fields;
+  } else if (element.type === 'table') {
+    content.table_data = element.table_data;
+  } else {
+    content.value = element.value || '';
+  }
+  return content;
+}
+
+function exportedElements(elements: ExtractedElement[], pages: PageImage[]) {
+  return elements.flatMap((element) => {
+    const page = pages.find((candidate) => candidate.page === element.page);
+    const box = elementBox(element);
+    return page && box ? [{ element, page, box }] : [];
+  });
+}
+
+// --- COCO ---
+
+export function toCoco(elements: ExtractedElement[], pages: PageImage[]) {
+  return {
+    info: {
+      description: 'Extracted document elements',
+      date_created: new Date().toISOString(),
+    },
+    images: pages.map((page) => ({
+      id: page.page,
+      file_name: page.fileName,
+      width: page.width,
+      height: page.height,
+    })),
+    categories: ELEMENT_TYPES.map((type, i) => ({
+      id: i + 1,
+      name: type,
+      supercategory: VISUAL_TYPES.includes(type) ? 'visual' : 'text',
+    })),
+    annotations: exportedElements(elements, pages).map(
+      ({ element, page, box }, i) => {
+        const bbox = toPixelRect(box, page);
+        // Line boxes become one rectangular polygon each.
+        const segmentation = (element.line_boxes || []).map((line) => {
+          const [x, y, width, height] = toPixelRect(line, page);
+          return [x, y, x + width, y, x + width, y + height, x, y + height];
+        });
+        return {
+          id: i + 1,
+          image_id: page.page,
+          category_id: ELEMENT_TYPES.indexOf(element.type) + 1,
+          bbox,
+          area: round(bbox[2] * bbox[3]),
+          iscrowd: 0,
+          segmentation,
+          ...(element.confidence !== undefined
+            ? { score: element.confidence }
+            : {}),
+          attributes: elementContent(element),
+        };
+      },
+    ),
+  };
+}
+
+function fromCoco(coco: any): unknown[] {
+  const images = new Map<
+    unknown,
+    { page: number; width: number; height: number }
+  >();
+  coco.images.forEach((image: any, i: number) => {
+    images.set(image.id, {
+      page: Number(image.page) || i + 1,
+      width: Number(image.width),
+      height: Number(image.height),
+    });
+  });
+  const categories = new Map<unknown, string>();
+  (coco.categories || []).forEach((category: any) => {
+    categories.set(category.id, category.name);
+  });
+
+  return coco.annotations.flatMap((annotation: any) => {
+    const image = images.get(annotation.image_id);
+    if (!image || !Array.isArray(annotation.bbox)) return [];
+    const attributes = annotation.attributes || {};
+    const element: Record<string, unknown> = {
+      type: categories.get(annotation.category_id) ?? annotation.category_id,
+      page: image.page,
+      bounding_box: fromPixelRect(annotation.bbox, image),
+    };
+    // Polygons count as line boxes; run-length masks are ignored.
+    if (Array.isArray(annotation.segmentation)) {
+      const lines = annotation.segmentation
+        .filter((polygon: unknown) => Array.isArray(polygon))
+        .map((polygon: number[]) => {
+          const xs = polygon.filter((_, j) => j % 2 === 0);
+          const ys = polygon.filter((_, j) => j % 2 === 1);
+          const x = Math.min(...xs);
+          const y = Math.min(...ys);
+          return fromPixelRect(
+            [x, y, Math.max(...xs) - x, Math.max(...ys) - y],
+            image,
+          );
+        });
+      if (lines.length > 0) element.line_boxes = lines;
+    }
+    if (attributes.label !== undefined) element.label = attributes.label;
+    if (attributes.fields !== undefined) element.fields = attributes.fields;
+    if (attributes.table_data !== undefined) {
+      element.table_data = attributes.table_data;
+    }
+    const value = attributes.value ?? attributes.text;
+    if (value !== undefined) element.value = value;
+    if (annotation.score !== undefined) element.confidence = annotation.score;
+    return [element];
+  });
+}
+
+// --- Label Studio ---
+
+/**
+ * The labeling interface for exported tasks: a rectangle per element,
+ * labelled with its type, plus its label and text per region.
+ */
+export const LABEL_STUDIO_CONFIG = `<View>
+  <Image name="image" value="$image"/>
+  <RectangleLabels name="type" toName="image">
+${ELEMENT_TYPES.map((type) => `    <Label value="${type}"/>`).join('\n')}
+  </RectangleLabels>
+  <TextArea name="label" toName="image" perRegion="true" editable="true"/>
+  <TextArea name="text" toName="image" perRegion="true" editable="true"/>
+</View>
+`;
+
+// One task per page, with the elements as a finished annotation.
+export function toLabelStudio(
+  elements: ExtractedElement[],
+  pages: PageImage[],
+) {
+  const exported = exportedElements(elements, pages);
+  return pages.map((page) => ({
+    data: { image: page.fileName, page: page.page },
+    annotations: [
+      {
+        result: exported
+          .filter((item) => item.page === page)
+          .flatMap(({ element, box }, i) => {
+            const id = `element-${element.page}-${i + 1}`;
+            const region = {
+              x: round(box.left * 100, 4),
+              y: round(box.top * 100, 4),
+              width: round((box.right - box.left) * 100, 4),
+              height: round((box.bottom - box.top) * 100, 4),
+              rotation: 0,
+            };
+            const result = (fromName: string, type: string, value: object) => ({
+              id,
+              from_name: fromName,
+              to_name: 'image',
+              type,
+              original_width: page.width,
+              original_height: page.height,
+              image_rotation: 0,
+              value: { ...region, ...value },
+            });
+            return [
+              {
+                ...result('type', 'rectanglelabels', {
+                  rectanglelabels: [element.type],
+                }),
+                ...(element.confidence !== undefined
+                  ? { score: element.confidence }
+                  : {}),
+              },
+              ...(element.label
+                ? [result('label', 'textarea', { text: [element.label] })]
+                : []),
+              result('text', 'textarea', { text: contentLines(element) }),
+            ];
+          }),
+      },
+    ],
+  }));
+}
+
+function fromLabelStudio(tasks: any[]): unknown[] {
+  return tasks.flatMap((task, i) => {
+    const page = Number(task.data?.page) || i + 1;
+    const annotation =
+      [...(task.annotations || []), ...(task.predictions || [])].find(
+        (candidate: any) => candidate?.result?.length,
+      ) || { result: [] };
+
+    // Results of the same region share an id.
+    const regions = new Map<string, any[]>();
+    annotation.result.forEach((result: any) => {
+      const id = String(result.id ?? regions.size);
+      regions.set(id, [...(regions.get(id) || []), result]);
+    });
+
+    return [...regions.values()].flatMap((results) => {
+      const rectangle = results.find((result) => result.value?.rectanglelabels);
+      if (!rectangle) return [];
+      const { x, y, width, height } = rectangle.value;
+      const type = rectangle.value.rectanglelabels[0];
+      const text = (name: string) =>
+        results.find(
+          (result) => result.type === 'textarea' && result.from_name === name,
+        )?.value.text;
+      const label = text('label');
+      const lines: string[] = text('text') || text('transcription') || [];
+      return [
+        {
+          type,
+          page,
+          bounding_box: fromPixelRect([x, y, width, height], {
+            width: 100,
+            height: 100,
+          }),
+          ...(label ? { label: label.join(' ') } : {}),
+          ...(rectangle.score !== undefined
+            ? { confidence: rectangle.score }
+            : {}),
+          ...contentFromLines(type, lines),
+        },
+      ];
+    });
+  });
+}
+
+// --- hOCR ---
+
+const pixelBbox = (box: BoundingBox, page: PageImage) => {
+  const [x, y, width, height] = toPixelRect(box, page);
+  return `bbox ${Math.round(x)} ${Math.round(y)} ${Math.round(
+    x + width,
+  )} ${Math.round(y + height)}`;
+};
+
+/**
+ * An hOCR document: a content area per element, with its type and label as
+ * data attributes and an ocr_line per line box. Figures and logos are
+ * ocr_photo areas that carry their description.
+ */
+export function toHocr(
+  elements: ExtractedElement[],
+  pages: PageImage[],
+  title: string,
+) {
+  const exported = exportedElements(elements, pages);
+  const body = pages
+    .map((page) => {
+      const areas = exported
+        .filter((item) => item.page === page)
+        .map(({ element, box }, i) => {
+          const id = `${page.page}_${i + 1}`;
+          const attributes = `title="${pixelBbox(box, page)}" data-type="${
+            element.type
+          }"${element.label ? ` data-label="${escapeXml(element.label)}"` : ''}`;
+          if (VISUAL_TYPES.includes(element.type)) {
+            return `<div class="ocr_photo" id="photo_${id}" ${attributes} data-value="${escapeXml(
+              elementToText(element),
+            )}"></div>`;
+          }
+          const lines = layoutElementLines(element, contentLines(element))
+            .map(
+              (line, j) =>
+                `<span class="ocr_line" id="line_${id}_${j + 1}" title="${pixelBbox(
+                  line.box,
+                  page,
+                )}">${escapeXml(line.text)}</span>`,
+            )
+            .join('\n');
+          return `<div class="ocr_carea" id="block_${id}" ${attributes}>
+<p class="ocr_par" id="par_${id}" title="${pixelBbox(box, page)}">
+${lines}
+</p>
+</div>`;
+        });
+      return `<div class="ocr_page" id="page_${page.page}" title="image &quot;${escapeXml(
+        page.fileName,
+      )}&quot;; bbox 0 0 ${page.width} ${page.height}; ppageno ${page.page - 1}">
+${areas.join('\n')}
+</div>`;
+    })
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.0 Transitional//EN" "http://www.w3.org/TR/xhtml1/DTD/xhtml1-transitional.dtd">
+<html xmlns="http://www.w3.org/1999/xhtml" xml:lang="en" lang="en">
+<head>
+<title>${escapeXml(title)}</title>
+<meta http-equiv="Content-Type" content="text/html;charset=utf-8"/>
+<meta name="ocr-system" content="document-extraction"/>
+<meta name="ocr-capabilities" content="ocr_page ocr_carea ocr_par ocr_line ocr_photo"/>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+// Reads the "bbox x0 y0 x1 y1" property of an hOCR title as [x, y, w, h].
+function hocrBbox(node: Element): PixelRect | null {
+  const match = /bbox((?:\s+-?\d+(?:\.\d+)?){4})/.exec(
+    node.getAttribute('title') || '',
+  );
+  if (!match) return null;
+  const [x0, y0, x1, y1] = match[1].trim().split(/\s+/).map(Number);
+  return [x0, y0, x1 - x0, y1 - y0];
+}
+
+const HOCR_LINE_CLASSES = [
+  'ocr_line',
+  'ocr_header',
+  'ocr_caption',
+  'ocr_textfloat',
+];
+
+function fromHocr(text: string): unknown[] {
+  const doc = new DOMParser().parseFromString(text, 'text/html');
+  return [...doc.querySelectorAll('.ocr_page')].flatMap((pageNode, i) => {
+    const pageRect = hocrBbox(pageNode);
+    if (!pageRect) return [];
+    const size = { width: pageRect[2], height: pageRect[3] };
+    const pageNumber = /ppageno\s+(\d+)/.exec(pageNode.getAttribute('title'));
+    const page = (pageNumber ? Number(pageNumber[1]) : i) + 1;
+
+    // Documents without content areas are read paragraph by paragraph.
+    let areas = [
+      ...pageNode.querySelectorAll('.ocr_carea, .ocr_photo, .ocr_image'),
+    ];
+    if (areas.length === 0) areas = [...pageNode.querySelectorAll('.ocr_par')];
+
+    return areas.flatMap((area) => {
+      const rect = hocrBbox(area);
+      if (!rect) return [];
+      const isPicture =
+        !area.classList.contains('ocr_carea') &&
+        !area.classList.contains('ocr_par');
+      const type =
+        area.getAttribute('data-type') || (isPicture ? 'figure' : 'paragraph');
+      const lineNodes = [
+        ...area.querySelectorAll(
+          HOCR_LINE_CLASSES.map((name) => `.${name}`).join(', '),
+        ),
+      ];
+      const lines = lineNodes.map((line) =>
+        line.textContent.replace(/\s+/g, ' ').trim(),
+      );
+      const lineBoxes = lineNodes
+        .map(hocrBbox)
+        .filter(Boolean)
+        .map((lineRect) => fromPixelRect(lineRect, size));
+      const label = area.getAttribute('data-label');
+      return [
+        {
+          type,
+          page,
+          bounding_box: fromPixelRect(rect, size),
+          ...(lineBoxes.length > 0 ? { line_boxes: lineBoxes } : {}),
+          ...(label ? { label } : {}),
+          ...(isPicture
+            ? { value: area.getAttribute('data-value') || '' }
+            : contentFromLines(type, lines)),
+        },
+      ];
+    });
+  });
+}
+
+// --- ALTO ---
+
+const ALTO_NAMESPACE = 'http://www.loc.gov/standards/alto/ns-v4#';
+
+const altoPosition = (box: BoundingBox, page: PageImage) => {
+  const [x, y, width, height] = toPixelRect(box, page);
+  return `HPOS="${x}" VPOS="${y}" WIDTH="${width}" HEIGHT="${height}"`;
+};
+
+/**
+ * An ALTO v4 document: a TextBlock per element with a TextLine per line box,
+ * and an Illustration per figure or logo. Each element references an
+ * OtherTag holding its type, label and (for pictures) description.
+ */
+export function toAlto(
+  elements: ExtractedElement[],
+  pages: PageImage[],
+  fileName: string,
+) {
+  const exported = exportedElements(elements, pages);
+  const tags = exported
+    .map(({ element }, i) => {
+      const description = VISUAL_TYPES.includes(element.type)
+        ? ` DESCRIPTION="${escapeXml(elementToText(element))}"`
+        : '';
+      return `<OtherTag ID="ELEMENT_${i + 1}" TYPE="${element.type}" LABEL="${escapeXml(
+        element.label || '',
+      )}"${description}/>`;
+    })
+    .join('\n');
+
+  const layout = pages
+    .map((page) => {
+      const blocks = exported
+        .map((item, i) => ({ ...item, tag: `ELEMENT_${i + 1}` }))
+        .filter((item) => item.page === page)
+        .map(({ element, box, tag }) => {
+          if (VISUAL_TYPES.includes(element.type)) {
+            return `<Illustration ID="${tag}_BLOCK" ${altoPosition(
+              box,
+              page,
+            )} TAGREFS="${tag}"/>`;
+          }
+          const lines = layoutElementLines(element, contentLines(element))
+            .map(
+              (line, j) =>
+                `<TextLine ID="${tag}_LINE_${j + 1}" ${altoPosition(
+                  line.box,
+                  page,
+                )}><String CONTENT="${escapeXml(line.text)}" ${altoPosition(
+                  line.box,
+                  page,
+                )}/></TextLine>`,
+            )
+            .join('\n');
+          return `<TextBlock ID="${tag}_BLOCK" ${altoPosition(
+            box,
+            page,
+          )} TAGREFS="${tag}">
+${lines}
+</TextBlock>`;
+        });
+      return `<Page ID="PAGE_${page.page}" PHYSICAL_IMG_NR="${page.page}" WIDTH="${page.width}" HEIGHT="${page.height}">
+<PrintSpace HPOS="0" VPOS="0" WIDTH="${page.width}" HEIGHT="${page.height}">
+${blocks.join('\n')}
+</PrintSpace>
+</Page>`;
+    })
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<alto xmlns="${ALTO_NAMESPACE}">
+<Description>
+<MeasurementUnit>pixel</MeasurementUnit>
+<sourceImageInformation><fileName>${escapeXml(fileName)}</fileName></sourceImageInformation>
+</Description>
+<Tags>
+${tags}
+</Tags>
+<Layout>
+${layout}
+</Layout>
+</alto>
+`;
+}
+
+function altoRect(node: Element): PixelRect | null {
+  const values = ['HPOS', 'VPOS', 'WIDTH', 'HEIGHT'].map((name) =>
+    Number(node.getAttribute(name)),
+  );
+  return values.every(Number.isFinite) && node.hasAttribute('WIDTH')
+    ? (values as PixelRect)
+    : null;
+}
+
+function fromAlto(text: string): unknown[] {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.querySelector('parsererror')) {
+    throw new Error('The ALTO file is not well-formed XML.');
+  }
+  const byName = (node: Element | Document, name: string) => [
+    ...node.getElementsByTagNameNS('*', name),
+  ];
+  const tags = new Map(
+    byName(doc, 'OtherTag').map((tag) => [tag.getAttribute('ID'), tag]),
+  );
+
+  return byName(doc, 'Page').flatMap((pageNode, i) => {
+    const size = {
+      width: Number(pageNode.getAttribute('WIDTH')),
+      height: Number(pageNode.getAttribute('HEIGHT')),
+    };
+    if (!size.width || !size.height) return [];
+    const page = Number(pageNode.getAttribute('PHYSICAL_IMG_NR')) || i + 1;
+
+    return [
+      ...byName(pageNode, 'TextBlock'),
+      ...byName(pageNode, 'Illustration'),
+    ].flatMap((block) => {
+      const rect = altoRect(block);
+      if (!rect) return [];
+      const tag = (block.getAttribute('TAGREFS') || '')
+        .split(/\s+/)
+        .map((id) => tags.get(id))
+        .find(Boolean);
+      const isPicture = block.localName === 'Illustration';
+      const type =
+        tag?.getAttribute('TYPE') || (isPicture ? 'figure' : 'paragraph');
+      const lineNodes = byName(block, 'TextLine');
+      const lines = lineNodes.map((line) =>
+        byName(line, 'String')
+          .map((word) => word.getAttribute('CONTENT'))
+          .join(' '),
+      );
+      const lineBoxes = lineNodes
+        .map(altoRect)
+        .filter(Boolean)
+        .map((lineRect) => fromPixelRect(lineRect, size));
+      const label = tag?.getAttribute('LABEL');
+      return [
+        {
+          type,
+          page,
+          bounding_box: fromPixelRect(rect, size),
+          ...(lineBoxes.length > 0 ? { line_boxes: lineBoxes } : {}),
+          ...(label ? { label } : {}),
+          ...(isPicture
+            ? { value: tag?.getAttribute('DESCRIPTION') || '' }
+            : contentFromLines(type, lines)),
+        },
+      ];
+    });
+  });
+}
+
+// --- Extraction JSON ---
+
+// A document of a batch JSON export.
+interface BatchExportEntry {
+  file_name: string;
+  extracted_elements?: unknown[];
+  // Name of the user-defined schema `result` was extracted with
+  schema?: string;
+  result?: UserSchemaResult;
+}
+
+export interface ImportOptions {
+  // The document the results are for, to pick its entry from a batch export
+  fileName: string;
+  // User-defined schemas, to read keyed results with
+  schemas: UserSchema[];
+  // The schema to try for keyed results that do not name one
+  activeSchema: UserSchema | null;
+}
+
+export interface ImportedResults {
+  format: InterchangeFormat;
+  elements: unknown[];
+  // The user-defined schema keyed results were read with
+  schema: UserSchema | null;
+}
+
+// The files a batch JSON export has results for, or null if `text` is not one.
+export function batchExportFileNames(text: string): string[] | null {
+  try {
+    const json = JSON.parse(text);
+    return Array.isArray(json?.documents)
+      ? json.documents.map((entry: BatchExportEntry) => entry?.file_name)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+// Keyed results match a schema when at least one of its keys is present.
+function matchesSchema(json: object, schema: UserSchema) {
+  return schema.fields.some((field) => {
+    const key = toFieldKey(field.name);
+    return key && key in json;
+  });
+}
+
+/**
+ * Reads the results of an extraction as saved from the JSON tab or an
+ * export: `{ extracted_elements }`, a bare element list, keyed user-schema
+ * results, or the document's entry in a batch export. Returns null if `json`
+ * is none of these.
+ */
+function fromResultsJson(
+  json: any,
+  options: ImportOptions,
+): Omit<ImportedResults, 'format'> | null {
+  if (Array.isArray(json)) {
+    const isElementList = json.every(
+      (item) => item && typeof item === 'object' && 'type' in item,
+    );
+    return isElementList ? { elements: json, schema: null } : null;
+  }
+  if (!json || typeof json !== 'object') return null;
+  if (Array.isArray(json.extracted_elements)) {
+    return { elements: json.extracted_elements, schema: null };
+  }
+
+  if (Array.isArray(json.documents)) {
+    const entry: BatchExportEntry = json.documents.find(
+      (candidate: BatchExportEntry) =>
+        candidate?.file_name === options.fileName,
+    );
+    if (!entry || (!entry.extracted_elements && !entry.result)) {
+      throw new Error(
+        `The batch export has no results for '${options.fileName}'.`,
+      );
+    }
+    if (entry.extracted_elements) {
+      return { elements: entry.extracted_elements, schema: null };
+    }
+    const schema = options.schemas.find((item) => item.name === entry.schema);
+    if (!schema) {
+      throw new Error(
+        `The results for '${options.fileName}' use the schema '${entry.schema}', which is not defined here.`,
+      );
+    }
+    return { elements: userResultToElements(schema, entry.result), schema };
+  }
+
+  const schema = options.activeSchema;
+  if (schema && matchesSchema(json, schema)) {
+    return { elements: userResultToElements(schema, json), schema };
+  }
+  return null;
+}
+
+// --- Import ---
+
+/**
+ * Reads results or annotations in any of the supported formats, recognized
+ * by their content, as raw elements. Throws if the format is not recognized.
+ */
+export function parseAnnotations(
+  text: string,
+  options: ImportOptions,
+): ImportedResults {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    const json = JSON.parse(trimmed);
+    if (Array.isArray(json?.images) && Array.isArray(json?.annotations)) {
+      return { format: 'coco', elements: fromCoco(json), schema: null };
+    }
+    const tasks = Array.isArray(json) ? json : [json];
+    if (
+      tasks.length > 0 &&
+      tasks.every((task) => task && typeof task === 'object' && task.data)
+    ) {
+      return {
+        format: 'label-studio',
+        elements: fromLabelStudio(tasks),
+        schema: null,
+      };
+    }
+    const results = fromResultsJson(json, options);
+    if (results) return { format: 'json', ...results };
+  } else if (/<alto[\s>]/.test(trimmed)) {
+    return { format: 'alto', elements: fromAlto(trimmed), schema: null };
+  } else if (/\bocr_page\b/.test(trimmed)) {
+    return { format: 'hocr', elements: fromHocr(trimmed), schema: null };
+  }
+  throw new Error(
+    'The file is not in a recognized format (extraction JSON, COCO, Label Studio, hOCR or ALTO).',
+  );
+}
@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// --- Page Rendering ---
+// The preview only renders the PDF pages in and near the view; the others
+// are placeholders of the same size. Exports render the pages they need
+// themselves, at a fixed scale.
+
+// The pdf.js scale of the page images that exports and region extraction
+// crop from, whatever the zoom.
+export const EXPORT_RENDER_SCALE = 1.5;
+
+// How far beyond the view pages are rendered ahead of scrolling, as an
+// IntersectionObserver root margin: one view height above and below.
+export const NEARBY_PAGES_MARGIN = '100% 0px';
+
+// Width of the thumbnails in the page strip, in CSS pixels.
+export const THUMBNAIL_WIDTH = 88;
+
+/**
+ * Keeps canvases of pages that scrolled out of view for the next pages to
+ * be rendered, up to `maxFree`. Canvases beyond that are shrunk to nothing,
+ * which frees their memory.
+ */
+export function createCanvasPool(maxFree: number) {
+  const free: HTMLCanvasElement[] = [];
+  return {
+    acquire() {
+      return free.pop() || document.createElement('canvas');
+    },
+    release(canvas: HTMLCanvasElement) {
+      canvas.remove();
+      if (free.length < maxFree) {
+        free.push(canvas);
+      } else {
+        canvas.width = 0;
+        canvas.height = 0;
+      }
+    },
+  };
+}
+
+/**
+ * Renders a pdf.js page at `scale` into a canvas, by default a new one, and
+ * returns it.
+ */
+export async function renderPdfPage(
+  page: any,
+  scale: number,
+  canvas = document.createElement('canvas'),
+) {
+  const viewport = page.getViewport({ scale });
+  canvas.width = viewport.width;
+  canvas.height = viewport.height;
+  await page.render({
+    canvasContext: canvas.getContext('2d'),
+    viewport,
+  }).promise;
+  return canvas;
+}
+
+/**
+ * Destroys pdf.js documents, which hold their data and a worker's memory,
+ * once the preview no longer shows them and nothing that captured them
+ * (an export, an extraction, a page render) still holds them.
+ */
+export function createPdfDocumentTracker() {
+  let shown: any = null;
+  const holders = new Map<any, number>();
+  const destroyIfUnused = (pdf: any) => {
+    if (pdf && pdf !== shown && !holders.has(pdf)) pdf.destroy();
+  };
+  return {
+    // Records the document the preview now shows, in place of the last one.
+    show(pdf: any) {
+      const previous = shown;
+      shown = pdf;
+      if (previous !== pdf) destroyIfUnused(previous);
+    },
+    hold(pdf: any) {
+      if (pdf) holders.set(pdf, (holders.get(pdf) || 0) + 1);
+    },
+    release(pdf: any) {
+      if (!pdf) return;
+      const count = (holders.get(pdf) || 1) - 1;
+      if (count > 0) {
+        holders.set(pdf, count);
+      } else {
+        holders.delete(pdf);
+        destroyIfUnused(pdf);
+      }
+    },
+  };
+}
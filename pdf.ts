@@ -0,0 +1,401 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {
+  EncryptedPDFError,
+  PDFDocument,
+  PDFFont,
+  PDFHexString,
+  PDFName,
+  PDFPage,
+  PDFString,
+  StandardFonts,
+  TextRenderingMode,
+  beginText,
+  endText,
+  fill,
+  popGraphicsState,
+  pushGraphicsState,
+  rectangle,
+  setFillingRgbColor,
+  setFontAndSize,
+  setGraphicsState,
+  setLineWidth,
+  setStrokingRgbColor,
+  setTextMatrix,
+  setTextRenderingMode,
+  showText,
+  stroke,
+} from 'pdf-lib';
+import {
+  BoundingBox,
+  ExtractedElement,
+  elementToText,
+  getElementBoxes,
+  layoutElementLines,
+} from './elements';
+
+// --- PDF Export ---
+
+export interface SourceFile {
+  bytes: ArrayBuffer | Uint8Array;
+  mimeType: string;
+}
+
+// Images are placed on a page whose longer side is at most this (A4), in
+// points, so that scans print at a sensible size.
+const MAX_IMAGE_PAGE_SIZE = 842;
+
+// Elements that are pictures rather than text; they get no text layer and
+// the visual highlight colour.
+const VISUAL_TYPES = ['figure', 'logo'];
+
+/**
+ * Loads the document as a PDF, or wraps an image in a single-page PDF.
+ * Encrypted PDFs cannot be modified and are rejected.
+ */
+async function loadAsPdf(source: SourceFile) {
+  if (source.mimeType === 'application/pdf') {
+    try {
+      return await PDFDocument.load(source.bytes);
+    } catch (error) {
+      if (error instanceof EncryptedPDFError) {
+        throw new Error('Encrypted PDFs cannot be exported.');
+      }
+      throw error;
+    }
+  }
+
+  const pdf = await PDFDocument.create();
+  const image =
+    source.mimeType === 'image/jpeg'
+      ? await pdf.embedJpg(source.bytes)
+      : await pdf.embedPng(
+          source.mimeType === 'image/png'
+            ? source.bytes
+            : await convertToPng(source),
+        );
+  const scale = Math.min(
+    1,
+    MAX_IMAGE_PAGE_SIZE / Math.max(image.width, image.height),
+  );
+  const page = pdf.addPage([image.width * scale, image.height * scale]);
+  page.drawImage(image, {
+    x: 0,
+    y: 0,
+    width: image.width * scale,
+    height: image.height * scale,
+  });
+  return pdf;
+}
+
+/**
+ * Builds a PDF with one JPEG page image per page, sized like a single image
+ * would be. Nothing but the pixels survives, which is what redacted exports
+ * need.
+ */
+export async function createImagePdf(
+  pages: { data: Uint8Array; width: number; height: number }[],
+) {
+  const pdf = await PDFDocument.create();
+  for (const { data, width, height } of pages) {
+    const image = await pdf.embedJpg(data);
+    const scale = Math.min(1, MAX_IMAGE_PAGE_SIZE / Math.max(width, height));
+    const page = pdf.addPage([width * scale, height * scale]);
+    page.drawImage(image, {
+      x: 0,
+      y: 0,
+      width: width * scale,
+      height: height * scale,
+    });
+  }
+  return pdf.save();
+}
+
+// PDFs can only embed JPEG and PNG, so other images are redrawn as PNG.
+async function convertToPng(source: SourceFile) {
+  const bitmap = await createImageBitmap(
+    new Blob([source.bytes], { type: source.mimeType }),
+  );
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  canvas.getContext('2d').drawImage(bitmap, 0, 0);
+  bitmap.close();
+  const blob = await new Promise<Blob>((resolve) =>
+    canvas.toBlob(resolve, 'image/png'),
+  );
+  return blob.arrayBuffer();
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Maps normalized coordinates, measured on the page as displayed (top-left
+ * origin, after any /Rotate), to PDF user space.
+ */
+function createPageMapper(page: PDFPage) {
+  const { x, y, width, height } = page.getCropBox();
+  const rotation = ((page.getRotation().angle % 360) + 360) % 360;
+  const toPoint = (u: number, v: number): Point => {
+    switch (rotation) {
+      case 90:
+        return { x: x + v * width, y: y + u * height };
+      case 180:
+        return { x: x + (1 - u) * width, y: y + v * height };
+      case 270:
+        return { x: x + (1 - v) * width, y: y + (1 - u) * height };
+      default:
+        return { x: x + u * width, y: y + (1 - v) * height };
+    }
+  };
+  const sideways = rotation === 90 || rotation === 270;
+  return {
+    toPoint,
+    // The displayed page size in points
+    width: sideways ? height : width,
+    height: sideways ? width : height,
+    // Unit vectors of the displayed page's rightward and upward directions
+    right: unitVector(toPoint(0, 0), toPoint(1, 0)),
+    up: unitVector(toPoint(0, 1), toPoint(0, 0)),
+  };
+}
+
+function unitVector(from: Point, to: Point): Point {
+  const length = Math.hypot(to.x - from.x, to.y - from.y);
+  return { x: (to.x - from.x) / length, y: (to.y - from.y) / length };
+}
+
+// The axis-aligned rectangle covered by a box, in user space.
+function toRect(mapper: ReturnType<typeof createPageMapper>, box: BoundingBox) {
+  const a = mapper.toPoint(box.left, box.top);
+  const b = mapper.toPoint(box.right, box.bottom);
+  return {
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(b.x - a.x),
+    height: Math.abs(b.y - a.y),
+  };
+}
+
+// --- Searchable PDF ---
+
+/**
+ * Drops characters the standard fonts cannot encode (they only cover
+ * WinAnsi), so that one unusual character does not lose a whole line.
+ */
+function createEncoder(font: PDFFont) {
+  const supported = new Map<string, boolean>();
+  return (text: string) =>
+    [...text]
+      .filter((char) => {
+        if (!supported.has(char)) {
+          try {
+            font.encodeText(char);
+            supported.set(char, true);
+          } catch {
+            supported.set(char, false);
+          }
+        }
+        return supported.get(char);
+      })
+      .join('');
+}
+
+/**
+ * Draws invisible text stretched over a box, so that selecting or searching
+ * it in a viewer highlights the matching area of the page.
+ */
+function drawInvisibleLine(
+  page: PDFPage,
+  mapper: ReturnType<typeof createPageMapper>,
+  font: PDFFont,
+  fontKey: PDFName,
+  text: string,
+  box: BoundingBox,
+) {
+  const width = (box.right - box.left) * mapper.width;
+  const height = (box.bottom - box.top) * mapper.height;
+  const fontSize = height * 0.9;
+  const textWidth = font.widthOfTextAtSize(text, fontSize);
+  if (fontSize <= 0 || textWidth <= 0) return;
+
+  const stretch = width / textWidth;
+  // Baseline above the bottom of the box by the font's descent
+  const origin = mapper.toPoint(box.left, box.bottom);
+  const lift = fontSize * 0.2;
+  const { right, up } = mapper;
+  page.pushOperators(
+    beginText(),
+    setTextRenderingMode(TextRenderingMode.Invisible),
+    setFontAndSize(fontKey, fontSize),
+    setTextMatrix(
+      right.x * stretch,
+      right.y * stretch,
+      up.x,
+      up.y,
+      origin.x + up.x * lift,
+      origin.y + up.y * lift,
+    ),
+    showText(font.encodeText(text)),
+    endText(),
+  );
+}
+
+/**
+ * Returns the document as a PDF with an invisible text layer: the text of
+ * every element is placed over its line boxes (or bounding box), so scanned
+ * pages become selectable and searchable. Pictures get no text.
+ */
+export async function createSearchablePdf(
+  source: SourceFile,
+  elements: ExtractedElement[],
+) {
+  const pdf = await loadAsPdf(source);
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const encode = createEncoder(font);
+  const pages = pdf.getPages();
+
+  pages.forEach((page, pageIndex) => {
+    const lines = elements
+      .filter(
+        (element) =>
+          element.page === pageIndex + 1 &&
+          !VISUAL_TYPES.includes(element.type),
+      )
+      .flatMap((element) => layoutElementLines(element))
+      .map((line) => ({ ...line, text: encode(line.text).trim() }))
+      .filter((line) => line.text);
+    if (lines.length === 0) return;
+
+    page.node.normalize();
+    const fontKey = page.node.newFontDictionary(font.name, font.ref);
+    const mapper = createPageMapper(page);
+    lines.forEach(({ text, box }) =>
+      drawInvisibleLine(page, mapper, font, fontKey, text, box),
+    );
+  });
+  return pdf.save();
+}
+
+// --- Review Copy ---
+
+// The preview's overlay colours (.bounding-box-text / .bounding-box-visual).
+const HIGHLIGHT_COLORS = {
+  text: [52 / 255, 168 / 255, 83 / 255],
+  visual: [233 / 255, 30 / 255, 99 / 255],
+};
+const HIGHLIGHT_FILL_OPACITY = 0.2;
+const HIGHLIGHT_BORDER_WIDTH = 1.5;
+
+// Popup notes are cut to this many characters.
+const MAX_NOTE_LENGTH = 500;
+
+/**
+ * Adds one annotation over a box: a highlight for text, a square for
+ * pictures. Each carries an appearance stream in the style of the preview
+ * overlay, so it looks the same in every viewer.
+ */
+function addHighlight(
+  pdf: PDFDocument,
+  page: PDFPage,
+  rect: { x: number; y: number; width: number; height: number },
+  isVisual: boolean,
+  note: string,
+) {
+  const context = pdf.context;
+  const [r, g, b] = isVisual ? HIGHLIGHT_COLORS.visual : HIGHLIGHT_COLORS.text;
+  const inset = HIGHLIGHT_BORDER_WIDTH / 2;
+
+  const appearance = context.formXObject(
+    [
+      pushGraphicsState(),
+      setGraphicsState('GS0'),
+      setFillingRgbColor(r, g, b),
+      rectangle(0, 0, rect.width, rect.height),
+      fill(),
+      popGraphicsState(),
+      setStrokingRgbColor(r, g, b),
+      setLineWidth(HIGHLIGHT_BORDER_WIDTH),
+      rectangle(
+        inset,
+        inset,
+        Math.max(0, rect.width - 2 * inset),
+        Math.max(0, rect.height - 2 * inset),
+      ),
+      stroke(),
+    ],
+    {
+      BBox: [0, 0, rect.width, rect.height],
+      Resources: { ExtGState: { GS0: { ca: HIGHLIGHT_FILL_OPACITY } } },
+    },
+  );
+
+  const left = rect.x;
+  const bottom = rect.y;
+  const right = rect.x + rect.width;
+  const top = rect.y + rect.height;
+  const annotation = context.obj({
+    Type: 'Annot',
+    Subtype: isVisual ? 'Square' : 'Highlight',
+    Rect: [left, bottom, right, top],
+    ...(isVisual
+      ? {}
+      : { QuadPoints: [left, top, right, top, left, bottom, right, bottom] }),
+    C: [r, g, b],
+    F: 4, // print
+    T: PDFString.of('Extraction review'),
+    Contents: PDFHexString.fromText(note.slice(0, MAX_NOTE_LENGTH)),
+    AP: { N: context.register(appearance) },
+  });
+  page.node.addAnnot(context.register(annotation));
+}
+
+function elementNote(element: ExtractedElement) {
+  const title = element.label
+    ? `${element.type}: ${element.label}`
+    : element.type;
+  const text = elementToText(element);
+  return text ? `${title}\n${text}` : title;
+}
+
+/**
+ * Returns the document as a PDF with a highlight annotation over every box
+ * of every element, coloured like the preview overlays. Each note holds the
+ * element's type, label and extracted text.
+ */
+export async function createReviewPdf(
+  source: SourceFile,
+  elements: ExtractedElement[],
+) {
+  const pdf = await loadAsPdf(source);
+  const pages = pdf.getPages();
+
+  elements.forEach((element) => {
+    const isVisual = VISUAL_TYPES.includes(element.type);
+    const note = elementNote(element);
+    const placements = getElementBoxes(element).map((box) => ({
+      page: element.page,
+      box,
+    }));
+    if (element.type === 'table') {
+      element.continuations?.forEach(({ page, bounding_box }) => {
+        if (bounding_box) placements.push({ page, box: bounding_box });
+      });
+    }
+
+    placements.forEach(({ page: pageNumber, box }) => {
+      const page = pages[pageNumber - 1];
+      if (!page) return;
+      const rect = toRect(createPageMapper(page), box);
+      if (rect.width > 0 && rect.height > 0) {
+        addHighlight(pdf, page, rect, isVisual, note);
+      }
+    });
+  });
+  return pdf.save();
+}
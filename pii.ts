@@ -0,0 +1,235 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {
+  BoundingBox,
+  ExtractedElement,
+  GroupedField,
+  PiiCategory,
+  hasValue,
+} from './elements';
+
+// --- Personal Data ---
+// Results are tagged with kinds of personal data by the model (`pii`) and by
+// the rules below, which catch what the model misses: labels that name
+// personal data, and values shaped like SSNs, phone or account numbers.
+
+export const PII_CATEGORY_NAMES: Record<PiiCategory, string> = {
+  name: 'Name',
+  date_of_birth: 'Date of birth',
+  ssn: 'SSN',
+  account_number: 'Account number',
+  address: 'Address',
+  phone: 'Phone',
+};
+
+// What masked values are replaced with.
+export const REDACTED_TEXT = '[REDACTED]';
+
+// Labels that say what personal data their value holds.
+const LABEL_RULES: [PiiCategory, RegExp][] = [
+  ['date_of_birth', /\b(dob|d\.o\.b|date of birth|birth ?date|born)\b/i],
+  ['ssn', /\b(ssn|social security|national id|tax id|tin)\b/i],
+  [
+    'account_number',
+    /\b(account|acct|iban|routing|card (no|number)|policy (no|number|#)|member id|subscriber id|medical record|mrn|patient id)\b/i,
+  ],
+  ['phone', /\b(phone|tel|telephone|mobile|cell|fax)\b/i],
+  ['address', /\b(address|street|city|zip|postal code|postcode)\b/i],
+  [
+    'name',
+    /\b(name|patient|insured|beneficiary|policyholder|guarantor|physician|doctor|employee|signature|signed by)\b/i,
+  ],
+];
+
+// Labels that match a rule above without naming personal data.
+const LABEL_EXCEPTIONS: Partial<Record<PiiCategory, RegExp>> = {
+  address: /\b(e-?mail|ip|web)\b/i,
+  name: /\b(company|business|organi[sz]ation|vendor|product|file|facility|practice|plan|bank|drug|medication|item|user ?name)\b/i,
+  account_number: /\b(account (type|status)|accountant)\b/i,
+};
+
+// Values that are personal data whatever their label.
+const VALUE_RULES: [PiiCategory, RegExp][] = [
+  ['ssn', /\b\d{3}-\d{2}-\d{4}\b/],
+  [
+    'phone',
+    /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{3}\)|\b\d{3})[\s.-]?\d{3}[\s.-]\d{4}\b/,
+  ],
+  ['account_number', /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){3,7}\b/], // IBAN
+  [
+    'address',
+    /\b\d+[A-Za-z]?\s+(?:[A-Za-z0-9.']+\s+){1,4}(street|st|avenue|ave|road|rd|boulevard|blvd|lane|ln|drive|dr|court|ct|way|place|pl)\b/i,
+  ],
+];
+
+// Card numbers: 13 to 19 digits, optionally grouped, passing the Luhn check.
+const CARD_NUMBER = /\b\d(?:[ -]?\d){12,18}\b/g;
+
+function isLuhnValid(digits: string) {
+  let sum = 0;
+  [...digits].reverse().forEach((digit, i) => {
+    let n = Number(digit);
+    if (i % 2 === 1) {
+      n *= 2;
+      if (n > 9) n -= 9;
+    }
+    sum += n;
+  });
+  return sum % 10 === 0;
+}
+
+// Schema field names (patient_name, dateOfBirth) are read as words.
+function labelCategories(label: string) {
+  const words = label
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/[_-]+/g, ' ');
+  return LABEL_RULES.filter(
+    ([category, rule]) =>
+      rule.test(words) && !LABEL_EXCEPTIONS[category]?.test(words),
+  ).map(([category]) => category);
+}
+
+function valueCategories(value: string) {
+  const categories = VALUE_RULES.filter(([, rule]) => rule.test(value)).map(
+    ([category]) => category,
+  );
+  const hasCard = (value.match(CARD_NUMBER) || []).some((match) =>
+    isLuhnValid(match.replace(/\D/g, '')),
+  );
+  if (hasCard) categories.push('account_number');
+  return categories;
+}
+
+/**
+ * The kinds of personal data in a value: the model's tags, plus what the
+ * rules find in its label and value. Empty values hold none.
+ */
+export function classifyPii(
+  label: string,
+  value: string,
+  tags: PiiCategory[] = [],
+): PiiCategory[] {
+  if (!value.trim()) return [];
+  return [
+    ...new Set([...tags, ...labelCategories(label), ...valueCategories(value)]),
+  ];
+}
+
+export function getFieldPii(field: GroupedField) {
+  return classifyPii(field.label, field.value, field.pii);
+}
+
+/**
+ * The columns of a table holding personal data, by header or by the values
+ * in them.
+ */
+function getPiiColumns(element: Extract<ExtractedElement, { type: 'table' }>) {
+  const { headers, rows } = element.table_data;
+  return headers
+    .map((header, column) => {
+      const cells = rows.map((row) => row[column] || '').join('\n');
+      return classifyPii(header, cells).length > 0 ? column : -1;
+    })
+    .filter((column) => column !== -1);
+}
+
+/**
+ * The kinds of personal data in an element. A group holds those of its
+ * fields, a table those of its columns.
+ */
+export function getElementPii(element: ExtractedElement): PiiCategory[] {
+  switch (element.type) {
+    case 'field_group':
+      return [
+        ...new Set([
+          ...(element.pii || []),
+          ...element.fields.flatMap(getFieldPii),
+        ]),
+      ];
+    case 'table': {
+      const { headers, rows } = element.table_data;
+      return [
+        ...new Set([
+          ...(element.pii || []),
+          ...headers.flatMap((header, column) =>
+            classifyPii(
+              header,
+              rows.map((row) => row[column] || '').join('\n'),
+            ),
+          ),
+        ]),
+      ];
+    }
+    default:
+      return hasValue(element)
+        ? classifyPii(element.label || '', element.value || '', element.pii)
+        : [];
+  }
+}
+
+/**
+ * Copies of the elements with the values of personal data replaced by
+ * REDACTED_TEXT: whole values, group fields and table columns, or every
+ * field and cell of a group or table the model tagged as a whole. Labels,
+ * boxes and tags are kept, so the copies still show what was masked.
+ */
+export function redactElements(elements: ExtractedElement[]) {
+  return elements.map((element): ExtractedElement => {
+    switch (element.type) {
+      case 'field_group': {
+        const tagged = (element.pii || []).length > 0;
+        return {
+          ...element,
+          fields: element.fields.map((field) =>
+            tagged || getFieldPii(field).length > 0
+              ? { ...field, value: REDACTED_TEXT }
+              : field,
+          ),
+        };
+      }
+      case 'table': {
+        const columns = getPiiColumns(element);
+        const tagged = (element.pii || []).length > 0;
+        if (!tagged && columns.length === 0) return element;
+        return {
+          ...element,
+          table_data: {
+            ...element.table_data,
+            rows: element.table_data.rows.map((row) =>
+              row.map((cell, column) =>
+                tagged || columns.includes(column) ? REDACTED_TEXT : cell,
+              ),
+            ),
+          },
+        };
+      }
+      default:
+        return getElementPii(element).length > 0
+          ? { ...element, value: REDACTED_TEXT }
+          : element;
+    }
+  });
+}
+
+/**
+ * The regions to black out: every box of every element holding personal
+ * data. Groups and tables are covered whole, since their fields and cells
+ * have no boxes of their own.
+ */
+export function getRedactionRegions(elements: ExtractedElement[]) {
+  const regions: { page: number; box: BoundingBox }[] = [];
+  elements.forEach((element) => {
+    if (getElementPii(element).length === 0) return;
+    [element.bounding_box, ...(element.line_boxes || [])].forEach((box) => {
+      if (box) regions.push({ page: element.page, box });
+    });
+    if (element.type === 'table') {
+      element.continuations?.forEach(({ page, bounding_box }) => {
+        if (bounding_box) regions.push({ page, box: bounding_box });
+      });
+    }
+  });
+  return regions;
+}
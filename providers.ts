@@ -0,0 +1,245 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { GoogleGenAI } from '@google/genai';
+import {
+  ExtractionOptions,
+  GenerationKind,
+  GenerationRequest,
+  buildExtractionRequest,
+  responseToElements,
+} from './extraction';
+import { UserSchema } from './schemas';
+import { parseModelJson } from './validation';
+
+// --- Extraction Providers ---
+
+export interface ExtractionResult {
+  // Unvalidated elements, as returned by the model
+  elements: unknown;
+  // True if the response was cut off and only partially salvaged
+  truncated: boolean;
+}
+
+/**
+ * A backend that turns a document into extracted elements. `generateText` is
+ * the only backend-specific part; `extract` builds the request from the
+ * document, schema and options and maps the response onto elements.
+ */
+export interface ExtractionProvider {
+  id: string;
+  name: string;
+  models: string[];
+  generateText(request: GenerationRequest): Promise<string>;
+  generateJson(request: GenerationRequest): Promise<any>;
+  extract(
+    documentParts: any[],
+    userSchema: UserSchema | null,
+    options: ExtractionOptions,
+  ): Promise<ExtractionResult>;
+}
+
+type ProviderDefinition = Pick<
+  ExtractionProvider,
+  'id' | 'name' | 'models' | 'generateText'
+>;
+
+export function defineProvider(
+  definition: ProviderDefinition,
+): ExtractionProvider {
+  return {
+    ...definition,
+    async generateJson(request) {
+      return parseModelJson(await definition.generateText(request)).value;
+    },
+    async extract(documentParts, userSchema, options) {
+      const request = buildExtractionRequest(documentParts, userSchema, options);
+      const { value, truncated } = parseModelJson(
+        await definition.generateText(request),
+      );
+      return { elements: responseToElements(value, userSchema), truncated };
+    },
+  };
+}
+
+export const GEMINI_MODELS = [
+  'gemini-2.5-flash',
+  'gemini-2.5-pro',
+  'gemini-2.5-flash-lite',
+];
+
+/**
+ * The Gemini API provider, for the extraction server and the evaluation
+ * runner; the app goes through `createServerProvider`. The client is created
+ * on first use.
+ */
+export function createGeminiProvider(apiKey: string | undefined) {
+  let client: GoogleGenAI | null = null;
+
+  return defineProvider({
+    id: 'gemini',
+    name: 'Gemini API',
+    models: GEMINI_MODELS,
+    async generateText(request) {
+      if (!client) {
+        client = new GoogleGenAI({ apiKey });
+      }
+      const response = await client.models.generateContent({
+        model: request.model,
+        contents: { parts: request.parts },
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: request.responseSchema,
+        },
+      });
+      return response.text;
+    },
+  });
+}
+
+/**
+ * Gemini through the extraction server (server.ts), which holds the API key.
+ * Requests are posted as built; the server answers with the model's raw text.
+ */
+export function createServerProvider(endpoint = '/extract') {
+  return defineProvider({
+    id: 'gemini',
+    name: 'Gemini API',
+    models: GEMINI_MODELS,
+    async generateText(request) {
+      let response: Response;
+      try {
+        response = await fetch(endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(request),
+        });
+      } catch {
+        throw new Error(
+          'The extraction server could not be reached. Start it with `npm run server`.',
+        );
+      }
+      const body = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(
+          body?.error ||
+            `The extraction server answered with status ${response.status}.`,
+        );
+      }
+      if (typeof body?.text !== 'string') {
+        throw new Error('The extraction server sent an invalid response.');
+      }
+      return body.text;
+    },
+  });
+}
+
+/**
+ * Whether a `/status` body comes from the extraction server: other servers,
+ * such as a dev server's HTML fallback, may answer the same path too.
+ */
+export function isServerStatus(body: any) {
+  return (
+    typeof body?.backend === 'string' &&
+    Array.isArray(body.models) &&
+    body.models.some((model: unknown) =>
+      GEMINI_MODELS.includes(model as string),
+    )
+  );
+}
+
+// --- Recorded Responses ---
+
+export interface RecordedResponse {
+  key: string;
+  kind: GenerationKind;
+  description?: string;
+  // The parsed response, or the raw text if it was not valid JSON
+  response?: any;
+  responseText?: string;
+}
+
+export interface ResponseFixtures {
+  recordings: RecordedResponse[];
+  // Replayed when no recording matches a request of that kind
+  fallbacks?: Partial<Record<GenerationKind, any>>;
+}
+
+/**
+ * Derives a stable key for a request from everything except the model, so a
+ * recording made with one model replays for any other.
+ */
+export async function getRequestKey(request: GenerationRequest) {
+  const payload = JSON.stringify({
+    kind: request.kind,
+    parts: request.parts,
+    responseSchema: request.responseSchema,
+  });
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(payload),
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * A deterministic offline provider that replays recorded responses. Requests
+ * without a matching recording get the fixture's fallback for their kind, or
+ * fail if there is none.
+ */
+export function createFixtureProvider(fixtures: ResponseFixtures) {
+  return defineProvider({
+    id: 'fixtures',
+    name: 'Recorded responses (offline)',
+    models: ['recorded'],
+    async generateText(request) {
+      const key = await getRequestKey(request);
+      const recording = fixtures.recordings.find((r) => r.key === key);
+      if (recording) {
+        return recording.responseText ?? JSON.stringify(recording.response);
+      }
+      const fallback = fixtures.fallbacks?.[request.kind];
+      if (fallback !== undefined) {
+        return JSON.stringify(fallback);
+      }
+      throw new Error(`No recorded ${request.kind} response for this request.`);
+    },
+  });
+}
+
+/**
+ * Wraps a provider so that every successful response is captured into
+ * `recordings`, which can be shared with a fixture provider or saved as a
+ * fixtures file.
+ */
+export function withRecording(
+  provider: ExtractionProvider,
+  recordings: RecordedResponse[],
+): ExtractionProvider {
+  return defineProvider({
+    id: provider.id,
+    name: provider.name,
+    models: provider.models,
+    async generateText(request) {
+      const text = await provider.generateText(request);
+      const key = await getRequestKey(request);
+      if (!recordings.some((r) => r.key === key)) {
+        const recording: RecordedResponse = {
+          key,
+          kind: request.kind,
+          description: `${request.kind} recorded with ${request.model}`,
+        };
+        try {
+          recording.response = JSON.parse(text);
+        } catch {
+          recording.responseText = text;
+        }
+        recordings.push(recording);
+      }
+      return text;
+    },
+  });
+}
@@ -0,0 +1,226 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { GenerationKind, GenerationRequest } from './extraction';
+import { ExtractionProvider } from './providers';
+
+// --- Extraction Proxy ---
+// Request handling for the server that holds the API key. The browser posts
+// the generation requests it builds to /extract; the server checks their size,
+// shape and rate and forwards them to the model. See server.ts.
+
+export interface ProxyOptions {
+  // The backend requests are forwarded to (Gemini, or recorded responses)
+  provider: ExtractionProvider;
+  // Models clients may request
+  models: string[];
+  maxRequestBytes: number;
+  // Requests allowed per client within each window
+  rateLimit: number;
+  rateWindowMs: number;
+  // Identify clients by X-Forwarded-For, when behind a reverse proxy
+  trustProxy: boolean;
+  log: (line: string) => void;
+}
+
+const GENERATION_KINDS: GenerationKind[] = ['extraction', 'schema_proposal'];
+
+// An error answered with its status code and message.
+function httpError(status: number, message: string) {
+  return Object.assign(new Error(message), { status });
+}
+
+/**
+ * Counts requests per client over a sliding window. Clients idle for a whole
+ * window are forgotten.
+ */
+export function createRateLimiter(limit: number, windowMs: number) {
+  const requests = new Map<string, number[]>();
+  let lastSweep = 0;
+
+  return {
+    // Records a request, or returns the seconds until one is allowed again.
+    check(client: string, now = Date.now()): number | null {
+      if (now - lastSweep > windowMs) {
+        requests.forEach((times, key) => {
+          if (times[times.length - 1] <= now - windowMs) requests.delete(key);
+        });
+        lastSweep = now;
+      }
+      const times = (requests.get(client) || []).filter(
+        (time) => time > now - windowMs,
+      );
+      if (times.length >= limit) {
+        requests.set(client, times);
+        return Math.max(1, Math.ceil((times[0] + windowMs - now) / 1000));
+      }
+      times.push(now);
+      requests.set(client, times);
+      return null;
+    },
+  };
+}
+
+// Clients can send X-Forwarded-For themselves, and proxies append to it, so
+// only the last entry, added by the trusted proxy, names the client.
+function getClientId(request: IncomingMessage, trustProxy: boolean) {
+  const forwarded = request.headers['x-forwarded-for'];
+  if (trustProxy && typeof forwarded === 'string' && forwarded.trim()) {
+    return forwarded.split(',').pop().trim();
+  }
+  return request.socket.remoteAddress || 'unknown';
+}
+
+// Reads the request body, failing as soon as it grows over the limit.
+function readBody(request: IncomingMessage, maxBytes: number) {
+  return new Promise<string>((resolve, reject) => {
+    const declared = Number(request.headers['content-length']);
+    if (declared > maxBytes) {
+      request.resume();
+      reject(httpError(413, 'The request is too large.'));
+      return;
+    }
+    // The rest of an oversized body is read and dropped, so that the client
+    // still gets the answer.
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        chunks.length = 0;
+        reject(httpError(413, 'The request is too large.'));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    request.on('error', reject);
+  });
+}
+
+function isPart(part: any) {
+  if (typeof part?.text === 'string') return true;
+  return (
+    typeof part?.inlineData?.mimeType === 'string' &&
+    typeof part.inlineData.data === 'string'
+  );
+}
+
+/**
+ * Checks that a body is a generation request for an allowed model, with only
+ * text and inline data parts.
+ */
+export function parseGenerationRequest(
+  body: string,
+  models: string[],
+): GenerationRequest {
+  let request: any;
+  try {
+    request = JSON.parse(body);
+  } catch {
+    throw httpError(400, 'The request body is not valid JSON.');
+  }
+  if (!GENERATION_KINDS.includes(request?.kind)) {
+    throw httpError(400, 'Unknown request kind.');
+  }
+  if (!models.includes(request.model)) {
+    throw httpError(400, `Model "${request.model}" is not available.`);
+  }
+  if (
+    !Array.isArray(request.parts) ||
+    request.parts.length === 0 ||
+    !request.parts.every(isPart)
+  ) {
+    throw httpError(400, 'The request parts are malformed.');
+  }
+  if (!request.responseSchema || typeof request.responseSchema !== 'object') {
+    throw httpError(400, 'The request has no response schema.');
+  }
+  return {
+    kind: request.kind,
+    model: request.model,
+    parts: request.parts,
+    responseSchema: request.responseSchema,
+  };
+}
+
+function sendJson(response: ServerResponse, status: number, body: any) {
+  response.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Cache-Control': 'no-store',
+  });
+  response.end(JSON.stringify(body));
+}
+
+/**
+ * Returns the server's request listener:
+ * - `GET /status` tells the app that the server is up and which backend
+ *   answers.
+ * - `POST /extract` takes a generation request and answers `{ text }` with the
+ *   model's raw response, or `{ error }`.
+ * Every request is logged on one line, without its content.
+ */
+export function createProxyHandler(options: ProxyOptions) {
+  const limiter = createRateLimiter(options.rateLimit, options.rateWindowMs);
+
+  return async (request: IncomingMessage, response: ServerResponse) => {
+    const started = Date.now();
+    const client = getClientId(request, options.trustProxy);
+    const path = (request.url || '').split('?')[0];
+    let detail = '';
+
+    try {
+      if (path === '/status' && request.method === 'GET') {
+        sendJson(response, 200, {
+          backend: options.provider.id,
+          models: options.models,
+        });
+      } else if (path !== '/extract') {
+        throw httpError(404, 'Not found.');
+      } else if (request.method !== 'POST') {
+        response.setHeader('Allow', 'POST');
+        throw httpError(405, 'Use POST.');
+      } else {
+        const retryAfter = limiter.check(client);
+        if (retryAfter !== null) {
+          response.setHeader('Retry-After', String(retryAfter));
+          throw httpError(
+            429,
+            `Too many requests; try again in ${retryAfter} s.`,
+          );
+        }
+        const body = await readBody(request, options.maxRequestBytes);
+        const generation = parseGenerationRequest(body, options.models);
+        detail = `${generation.kind} ${generation.model} ${body.length}B`;
+        let text: string;
+        try {
+          text = await options.provider.generateText(generation);
+        } catch (error) {
+          throw httpError(
+            502,
+            error instanceof Error ? error.message : String(error),
+          );
+        }
+        sendJson(response, 200, { text });
+      }
+    } catch (error) {
+      const status = (error as { status?: number }).status || 500;
+      const message =
+        status === 500 ? 'Internal server error.' : (error as Error).message;
+      if (status === 500) console.error(error);
+      if (!response.headersSent) {
+        if (status === 413) response.setHeader('Connection', 'close');
+        sendJson(response, status, { error: message });
+      }
+      detail = detail ? `${detail} ${message}` : message;
+    }
+
+    options.log(
+      `${new Date(started).toISOString()} ${client} ${request.method} ${path} ${
+        response.statusCode
+      } ${Date.now() - started}ms${detail ? ` ${detail}` : ''}`,
+    );
+  };
+}
@@ -0,0 +1,409 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { ExtractedElement, GroupedField, getElementValue } from './elements';
+import { createZip, escapeXml } from './zip';
+
+// --- Document Reconstruction ---
+// Rebuilds the extracted elements as a document in reading order, which can
+// be written as Markdown, standalone HTML or DOCX.
+
+// A figure cropped from the page, as base64 JPEG with its size in pixels.
+export interface FigureImage {
+  data: string;
+  width: number;
+  height: number;
+}
+
+export type Block =
+  | { kind: 'heading'; level: 1 | 2 | 3; text: string }
+  // Marginalia are muted: page numbers, running headers and the like
+  | { kind: 'paragraph'; text: string; muted?: boolean }
+  | { kind: 'fields'; fields: GroupedField[] }
+  | { kind: 'checkbox'; label: string; checked: boolean }
+  | { kind: 'table'; headers: string[]; rows: string[][] }
+  | { kind: 'figure'; alt: string; image?: FigureImage }
+  | { kind: 'page_break'; page: number };
+
+const UNCHECKED_VALUE =
+  /\b(un(checked|selected|ticked|marked)|not|no|false|off|empty|blank)\b|☐/i;
+const CHECKED_VALUE = /\b(checked|selected|ticked|marked|yes|true|on|x)\b|[☑☒✓✔]/i;
+
+// Reads a checkbox's state from its value, e.g. "Checked" or "unchecked".
+export function isCheckboxChecked(value: string | undefined) {
+  return (
+    Boolean(value) && !UNCHECKED_VALUE.test(value) && CHECKED_VALUE.test(value)
+  );
+}
+
+function elementToBlocks(
+  element: ExtractedElement,
+  images: Map<ExtractedElement, FigureImage>,
+): Block[] {
+  switch (element.type) {
+    case 'paragraph': {
+      const blocks: Block[] = element.label
+        ? [{ kind: 'heading', level: 2, text: element.label }]
+        : [];
+      if (element.value) {
+        blocks.push({ kind: 'paragraph', text: element.value });
+      }
+      return blocks;
+    }
+    case 'field':
+    case 'attestation':
+      return [
+        element.label
+          ? {
+              kind: 'fields',
+              fields: [{ label: element.label, value: element.value || '' }],
+            }
+          : { kind: 'paragraph', text: element.value || '' },
+      ];
+    case 'field_group':
+      return [
+        ...(element.label
+          ? [{ kind: 'heading', level: 3, text: element.label } as Block]
+          : []),
+        { kind: 'fields', fields: element.fields },
+      ];
+    case 'table':
+      return [
+        ...(element.label
+          ? [{ kind: 'heading', level: 3, text: element.label } as Block]
+          : []),
+        {
+          kind: 'table',
+          headers: element.table_data.headers,
+          rows: element.table_data.rows,
+        },
+      ];
+    case 'checkbox':
+      return [
+        {
+          kind: 'checkbox',
+          label: element.label || '',
+          checked: isCheckboxChecked(element.value),
+        },
+      ];
+    case 'logo':
+    case 'figure':
+      return [
+        {
+          kind: 'figure',
+          alt: element.value || element.label || element.type,
+          image: images.get(element),
+        },
+      ];
+    case 'marginalia':
+      return [
+        { kind: 'paragraph', text: getElementValue(element), muted: true },
+      ];
+  }
+}
+
+/**
+ * Lays the elements out as blocks in reading order: labels become headings,
+ * tables keep their cells and figures their descriptions. A page break
+ * separates pages.
+ */
+export function reconstructDocument(
+  elements: ExtractedElement[],
+  options: { title: string; images?: Map<ExtractedElement, FigureImage> },
+): Block[] {
+  const images = options.images || new Map();
+  const ordered = elements
+    .map((element, index) => ({ element, index }))
+    .sort((a, b) => a.element.page - b.element.page || a.index - b.index)
+    .map(({ element }) => element);
+
+  const blocks: Block[] = [{ kind: 'heading', level: 1, text: options.title }];
+  let page = ordered[0]?.page;
+  ordered.forEach((element) => {
+    if (element.page !== page) {
+      page = element.page;
+      blocks.push({ kind: 'page_break', page });
+    }
+    blocks.push(
+      ...elementToBlocks(element, images).filter(
+        (block) => block.kind !== 'paragraph' || block.text.trim(),
+      ),
+    );
+  });
+  return blocks;
+}
+
+// --- Markdown ---
+
+function escapeMarkdown(text: string) {
+  return text
+    .replace(/([\\`*_[\]<>|])/g, '\\$1')
+    .replace(/^(\s*)([#+-]|\d+\.)(\s)/gm, '$1\\$2$3');
+}
+
+// Markdown text that keeps its line breaks, as hard breaks.
+function markdownLines(text: string) {
+  return escapeMarkdown(text.trim()).split('\n').join('  \n');
+}
+
+function markdownCell(text: string) {
+  return escapeMarkdown(text.trim()).replace(/\n/g, '<br>');
+}
+
+function blockToMarkdown(block: Block) {
+  switch (block.kind) {
+    case 'heading':
+      return `${'#'.repeat(block.level)} ${escapeMarkdown(block.text)}`;
+    case 'paragraph':
+      return block.muted
+        ? `*${markdownLines(block.text)}*`
+        : markdownLines(block.text);
+    case 'fields':
+      return block.fields
+        .map(
+          (field) =>
+            `- **${escapeMarkdown(field.label)}:** ${markdownCell(field.value)}`,
+        )
+        .join('\n');
+    case 'checkbox':
+      return `- [${block.checked ? 'x' : ' '}] ${escapeMarkdown(block.label)}`;
+    case 'table': {
+      const width = Math.max(
+        block.headers.length,
+        ...block.rows.map((row) => row.length),
+        1,
+      );
+      const row = (cells: string[]) =>
+        `| ${Array.from({ length: width }, (_, i) =>
+          markdownCell(cells[i] || ''),
+        ).join(' | ')} |`;
+      return [
+        row(block.headers),
+        `| ${Array(width).fill('---').join(' | ')} |`,
+        ...block.rows.map(row),
+      ].join('\n');
+    }
+    case 'figure': {
+      const alt = escapeMarkdown(block.alt).replace(/\n/g, ' ');
+      return block.image
+        ? `![${alt}](data:image/jpeg;base64,${block.image.data})`
+        : `*[Figure: ${alt}]*`;
+    }
+    case 'page_break':
+      return `---\n\n<!-- Page ${block.page} -->`;
+  }
+}
+
+// GitHub-flavoured Markdown, with figures inlined as data URIs.
+export function toMarkdown(blocks: Block[]) {
+  return blocks.map(blockToMarkdown).join('\n\n') + '\n';
+}
+
+// --- HTML ---
+
+function htmlLines(text: string) {
+  return escapeXml(text.trim()).split('\n').join('<br>');
+}
+
+function blockToHtml(block: Block) {
+  switch (block.kind) {
+    case 'heading':
+      return `<h${block.level}>${escapeXml(block.text)}</h${block.level}>`;
+    case 'paragraph':
+      return `<p${block.muted ? ' class="muted"' : ''}>${htmlLines(
+        block.text,
+      )}</p>`;
+    case 'fields':
+      return `<dl>${block.fields
+        .map(
+          (field) =>
+            `<dt>${escapeXml(field.label)}</dt><dd>${htmlLines(field.value)}</dd>`,
+        )
+        .join('')}</dl>`;
+    case 'checkbox':
+      return `<p><input type="checkbox" disabled${
+        block.checked ? ' checked' : ''
+      }> ${escapeXml(block.label)}</p>`;
+    case 'table':
+      return `<table><thead><tr>${block.headers
+        .map((header) => `<th>${htmlLines(header)}</th>`)
+        .join('')}</tr></thead><tbody>${block.rows
+        .map(
+          (row) =>
+            `<tr>${row.map((cell) => `<td>${htmlLines(cell)}</td>`).join('')}</tr>`,
+        )
+        .join('')}</tbody></table>`;
+    case 'figure':
+      return block.image
+        ? `<figure><img src="data:image/jpeg;base64,${block.image.data}" alt="${escapeXml(
+            block.alt,
+          )}"></figure>`
+        : `<p class="muted">[Figure: ${escapeXml(block.alt)}]</p>`;
+    case 'page_break':
+      return `<hr class="page-break" data-page="${block.page}">`;
+  }
+}
+
+const HTML_STYLES = `body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; color: #202124; }
+table { border-collapse: collapse; margin: 1rem 0; }
+th, td { border: 1px solid #dadce0; padding: 0.25rem 0.5rem; text-align: left; vertical-align: top; }
+th { background: #f1f3f4; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; }
+dt { font-weight: 600; }
+dd { margin: 0; }
+img { max-width: 100%; }
+.muted { color: #5f6368; font-style: italic; }
+.page-break { margin: 2rem 0; border: none; border-top: 1px dashed #dadce0; }`;
+
+// A standalone HTML page; figures are inlined, so it needs no other files.
+export function toHtml(blocks: Block[], title: string) {
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeXml(title)}</title>
+<style>
+${HTML_STYLES}
+</style>
+</head>
+<body>
+${blocks.map(blockToHtml).join('\n')}
+</body>
+</html>
+`;
+}
+
+// --- DOCX ---
+
+// Figures are at most this wide, in EMU (6 inches, the text width of a
+// letter page with 1.25 inch margins).
+const MAX_FIGURE_WIDTH = 5486400;
+// EMU per pixel at 96 DPI
+const EMU_PER_PIXEL = 9525;
+
+function docxRuns(text: string, bold = false) {
+  const properties = bold ? '<w:rPr><w:b/></w:rPr>' : '';
+  return text
+    .split('\n')
+    .map(
+      (line, i) =>
+        `<w:r>${properties}${i > 0 ? '<w:br/>' : ''}<w:t xml:space="preserve">${escapeXml(
+          line,
+        )}</w:t></w:r>`,
+    )
+    .join('');
+}
+
+function docxParagraph(content: string, style?: string) {
+  const properties = style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : '';
+  return `<w:p>${properties}${content}</w:p>`;
+}
+
+function docxTable(headers: string[], rows: string[][]) {
+  const width = Math.max(headers.length, ...rows.map((row) => row.length), 1);
+  const row = (cells: string[], isHeader: boolean) =>
+    `<w:tr>${Array.from(
+      { length: width },
+      (_, i) =>
+        `<w:tc><w:tcPr><w:tcW w:w="0" w:type="auto"/></w:tcPr>${docxParagraph(
+          docxRuns(cells[i] || '', isHeader),
+        )}</w:tc>`,
+    ).join('')}</w:tr>`;
+  return `<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="0" w:type="auto"/></w:tblPr><w:tblGrid>${'<w:gridCol/>'.repeat(
+    width,
+  )}</w:tblGrid>${row(headers, true)}${rows
+    .map((cells) => row(cells, false))
+    .join('')}</w:tbl>`;
+}
+
+function docxImage(image: FigureImage, alt: string, id: number) {
+  const scale = Math.min(1, MAX_FIGURE_WIDTH / (image.width * EMU_PER_PIXEL));
+  const cx = Math.round(image.width * EMU_PER_PIXEL * scale);
+  const cy = Math.round(image.height * EMU_PER_PIXEL * scale);
+  const descr = escapeXml(alt);
+  return `<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0"><wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="${id}" name="Figure ${id}" descr="${descr}"/><a:graphic xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:pic xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:nvPicPr><pic:cNvPr id="${id}" name="figure${id}.jpeg" descr="${descr}"/><pic:cNvPicPr/></pic:nvPicPr><pic:blipFill><a:blip r:embed="rIdFigure${id}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill><pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr></pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>`;
+}
+
+const DOCX_STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="22"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="120"/></w:pPr></w:pPrDefault></w:docDefaults><w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style><w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="240"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:sz w:val="36"/></w:rPr></w:style><w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="200"/><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:b/><w:sz w:val="30"/></w:rPr></w:style><w:style w:type="paragraph" w:styleId="Heading3"><w:name w:val="heading 3"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="160"/><w:outlineLvl w:val="2"/></w:pPr><w:rPr><w:b/><w:sz w:val="26"/></w:rPr></w:style><w:style w:type="paragraph" w:styleId="Muted"><w:name w:val="Muted"/><w:basedOn w:val="Normal"/><w:rPr><w:i/><w:color w:val="5F6368"/></w:rPr></w:style><w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:tblPr><w:tblBorders><w:top w:val="single" w:sz="4" w:color="DADCE0"/><w:left w:val="single" w:sz="4" w:color="DADCE0"/><w:bottom w:val="single" w:sz="4" w:color="DADCE0"/><w:right w:val="single" w:sz="4" w:color="DADCE0"/><w:insideH w:val="single" w:sz="4" w:color="DADCE0"/><w:insideV w:val="single" w:sz="4" w:color="DADCE0"/></w:tblBorders><w:tblCellMar><w:left w:w="80" w:type="dxa"/><w:right w:w="80" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style></w:styles>`;
+
+function base64ToBytes(data: string) {
+  return Uint8Array.from(atob(data), (char) => char.charCodeAt(0));
+}
+
+// A Word document; figures are embedded as pictures with their alt text.
+export function toDocx(blocks: Block[]) {
+  const figures: FigureImage[] = [];
+  const body = blocks
+    .map((block) => {
+      switch (block.kind) {
+        case 'heading':
+          return docxParagraph(docxRuns(block.text), `Heading${block.level}`);
+        case 'paragraph':
+          return docxParagraph(
+            docxRuns(block.text.trim()),
+            block.muted ? 'Muted' : undefined,
+          );
+        case 'fields':
+          return block.fields
+            .map((field) =>
+              docxParagraph(
+                docxRuns(`${field.label}: `, true) + docxRuns(field.value),
+              ),
+            )
+            .join('');
+        case 'checkbox':
+          return docxParagraph(
+            docxRuns(`${block.checked ? '☒' : '☐'} ${block.label}`),
+          );
+        case 'table':
+          // An empty paragraph keeps consecutive tables from merging.
+          return docxTable(block.headers, block.rows) + docxParagraph('');
+        case 'figure':
+          if (!block.image) {
+            return docxParagraph(docxRuns(`[Figure: ${block.alt}]`), 'Muted');
+          }
+          figures.push(block.image);
+          return docxParagraph(
+            docxImage(block.image, block.alt, figures.length),
+          );
+        case 'page_break':
+          return docxParagraph('<w:r><w:br w:type="page"/></w:r>');
+      }
+    })
+    .join('');
+
+  return createZip([
+    {
+      name: '[Content_Types].xml',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Default Extension="jpeg" ContentType="image/jpeg"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/></Types>`,
+    },
+    {
+      name: '_rels/.rels',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>`,
+    },
+    {
+      name: 'word/document.xml',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing"><w:body>${body}<w:sectPr><w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1440" w:right="1800" w:bottom="1440" w:left="1800" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr></w:body></w:document>`,
+    },
+    {
+      name: 'word/_rels/document.xml.rels',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>${figures
+        .map(
+          (_, i) =>
+            `<Relationship Id="rIdFigure${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/figure${i + 1}.jpeg"/>`,
+        )
+        .join('')}</Relationships>`,
+    },
+    { name: 'word/styles.xml', data: DOCX_STYLES },
+    ...figures.map((figure, i) => ({
+      name: `word/media/figure${i + 1}.jpeg`,
+      data: base64ToBytes(figure.data),
+    })),
+  ]);
+}
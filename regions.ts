@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { BoundingBox, ExtractedElement } from './elements';
+
+// --- Drawn Regions ---
+
+// A rectangle drawn by the user on a page of the preview.
+export interface PageRegion {
+  page: number;
+  box: BoundingBox;
+}
+
+// Regions smaller than this (in pixels on screen) are treated as clicks.
+export const MIN_REGION_SIZE = 6;
+
+export const REGION_NOTE =
+  '**Cropped Region:** The image is a small region cropped from a single page of a larger document, not a full page. Extract only what is inside it. Report `page` as 1 and give every box relative to the cropped image.';
+
+/**
+ * Crops a region from a rendered page (a pdf.js canvas or the preview image)
+ * and returns it as base64 JPEG data.
+ */
+export function cropPageRegion(
+  source: HTMLCanvasElement | HTMLImageElement,
+  box: BoundingBox,
+) {
+  const sourceWidth =
+    source instanceof HTMLImageElement ? source.naturalWidth : source.width;
+  const sourceHeight =
+    source instanceof HTMLImageElement ? source.naturalHeight : source.height;
+
+  const sx = box.left * sourceWidth;
+  const sy = box.top * sourceHeight;
+  const width = Math.max(1, Math.round((box.right - box.left) * sourceWidth));
+  const height = Math.max(1, Math.round((box.bottom - box.top) * sourceHeight));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  canvas
+    .getContext('2d')
+    .drawImage(source, sx, sy, width, height, 0, 0, width, height);
+  const data = canvas.toDataURL('image/jpeg', 0.9).split(',')[1];
+  canvas.width = 0;
+  canvas.height = 0;
+  return data;
+}
+
+function toPageBox(box: BoundingBox, region: BoundingBox): BoundingBox {
+  const width = region.right - region.left;
+  const height = region.bottom - region.top;
+  return {
+    left: region.left + box.left * width,
+    top: region.top + box.top * height,
+    right: region.left + box.right * width,
+    bottom: region.top + box.bottom * height,
+  };
+}
+
+/**
+ * Maps elements extracted from a cropped region back onto the page the
+ * region was drawn on. Elements without a box get the region's box.
+ */
+export function regionToPageElements(
+  elements: ExtractedElement[],
+  region: PageRegion,
+) {
+  elements.forEach((element) => {
+    element.page = region.page;
+    element.bounding_box = element.bounding_box
+      ? toPageBox(element.bounding_box, region.box)
+      : { ...region.box };
+    if (element.line_boxes) {
+      element.line_boxes = element.line_boxes.map((box) =>
+        toPageBox(box, region.box),
+      );
+    }
+  });
+  return elements;
+}
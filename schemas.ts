@@ -0,0 +1,570 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { Schema, Type } from '@google/genai';
+import {
+  BoundingBox,
+  ExtractedElement,
+  PII_CATEGORIES,
+  PiiCategory,
+  getElementValue,
+} from './elements';
+
+// --- User-Defined Extraction Schemas ---
+
+export type SchemaScalarType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'date';
+
+export type SchemaFieldType = SchemaScalarType | 'object' | 'array';
+
+export const SCHEMA_FIELD_TYPES: SchemaFieldType[] = [
+  'string',
+  'number',
+  'integer',
+  'boolean',
+  'date',
+  'object',
+  'array',
+];
+
+export interface SchemaField {
+  name: string;
+  type: SchemaFieldType;
+  description: string;
+  required: boolean;
+  // Child fields of an 'object', or the fields of each item of an 'array'.
+  fields?: SchemaField[];
+}
+
+// How deep schemas may nest; also bounds the schema-proposal response schema.
+export const MAX_SCHEMA_DEPTH = 3;
+
+export interface UserSchema {
+  id: string;
+  name: string;
+  fields: SchemaField[];
+}
+
+/**
+ * The value the model returns for every user-defined field. Each value keeps
+ * its own page and bounding box so results stay traceable to the document.
+ */
+export interface UserSchemaValue {
+  value: any;
+  page?: number;
+  bounding_box?: BoundingBox;
+  // How sure the model is of the value, from 0 to 1
+  confidence?: number;
+  // Personal data in the value
+  pii?: PiiCategory[];
+}
+
+export type UserSchemaResult = Record<string, UserSchemaValue | null>;
+
+// The id used for the built-in generic `extracted_elements` schema.
+export const DEFAULT_SCHEMA_ID = 'default';
+
+const STORAGE_KEY = 'ade.userSchemas';
+
+export function loadUserSchemas(): UserSchema[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('Could not load saved schemas:', error);
+    return [];
+  }
+}
+
+export function saveUserSchemas(schemas: UserSchema[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(schemas));
+}
+
+export function createUserSchema(name: string): UserSchema {
+  return {
+    id: `schema-${Date.now().toString(36)}`,
+    name,
+    fields: [createSchemaField()],
+  };
+}
+
+export function createSchemaField(): SchemaField {
+  return { name: '', type: 'string', description: '', required: false };
+}
+
+export function isContainerType(type: SchemaFieldType) {
+  return type === 'object' || type === 'array';
+}
+
+/**
+ * Normalizes a user-entered field name into a key that is safe to use as a
+ * JSON property name in the response schema (e.g. "Invoice No." -> "invoice_no").
+ */
+export function toFieldKey(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+function toGeminiType(type: SchemaScalarType): Type {
+  switch (type) {
+    case 'number':
+      return Type.NUMBER;
+    case 'integer':
+      return Type.INTEGER;
+    case 'boolean':
+      return Type.BOOLEAN;
+    default:
+      // Dates are returned as ISO-8601 strings.
+      return Type.STRING;
+  }
+}
+
+const BOX_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    left: { type: Type.NUMBER },
+    top: { type: Type.NUMBER },
+    right: { type: Type.NUMBER },
+    bottom: { type: Type.NUMBER },
+  },
+  description:
+    'Normalized {left, top, right, bottom} coordinates of the value on the page. The origin (0,0) is the top-left corner.',
+};
+
+function buildObjectSchema(fields: SchemaField[] = []): Schema {
+  const properties: Record<string, Schema> = {};
+  const required: string[] = [];
+  fields.forEach((field) => {
+    const key = toFieldKey(field.name);
+    if (!key) return;
+    properties[key] = {
+      ...buildValueSchema(field),
+      nullable: !field.required,
+    };
+    if (field.required) {
+      required.push(key);
+    }
+  });
+  return {
+    type: Type.OBJECT,
+    properties,
+    required,
+    propertyOrdering: Object.keys(properties),
+  };
+}
+
+/**
+ * Builds the schema of a field's value: a scalar, a nested object, or an
+ * array of objects.
+ */
+function buildValueSchema(field: SchemaField): Schema {
+  const description = field.description || field.name;
+  switch (field.type) {
+    case 'object':
+      return { ...buildObjectSchema(field.fields), description };
+    case 'array':
+      return {
+        type: Type.ARRAY,
+        description,
+        items: buildObjectSchema(field.fields),
+      };
+    case 'date':
+      return {
+        type: Type.STRING,
+        format: 'date',
+        description: `${description}. The date in ISO-8601 (YYYY-MM-DD) format.`,
+      };
+    default:
+      return { type: toGeminiType(field.type), description };
+  }
+}
+
+/**
+ * Builds the Gemini `responseSchema` for a user-defined schema. Every
+ * top-level field becomes an object carrying its value plus `page` and
+ * `bounding_box`; nested object and array values are returned inline.
+ */
+export function buildResponseSchema(schema: UserSchema): Schema {
+  const properties: Record<string, Schema> = {};
+  const required: string[] = [];
+
+  schema.fields.forEach((field) => {
+    const key = toFieldKey(field.name);
+    if (!key) return;
+
+    properties[key] = {
+      type: Type.OBJECT,
+      nullable: !field.required,
+      description: field.description || field.name,
+      properties: {
+        value: buildValueSchema(field),
+        page: {
+          type: Type.INTEGER,
+          description:
+            'The page number where the value was found (starting from 1).',
+        },
+        bounding_box: BOX_SCHEMA,
+        confidence: {
+          type: Type.NUMBER,
+          description:
+            'How confident you are in the value, from 0.0 (a guess) to 1.0 (certain).',
+        },
+        pii: {
+          type: Type.ARRAY,
+          description: 'The kinds of personal data in the value, if any.',
+          items: {
+            type: Type.STRING,
+            format: 'enum',
+            enum: [...PII_CATEGORIES],
+          },
+        },
+      },
+      required: ['value', 'page', 'bounding_box'],
+    };
+    if (field.required) {
+      required.push(key);
+    }
+  });
+
+  return {
+    type: Type.OBJECT,
+    properties,
+    required,
+    propertyOrdering: Object.keys(properties),
+  };
+}
+
+function describeFields(fields: SchemaField[], depth = 0): string {
+  const indent = '    '.repeat(depth);
+  return fields
+    .filter((field) => toFieldKey(field.name))
+    .map((field) => {
+      const line = `${indent}-   \`${toFieldKey(field.name)}\` (${
+        field.type === 'array' ? 'array of objects' : field.type
+      }${field.required ? ', required' : ', optional'}): ${
+        field.description || field.name
+      }`;
+      return field.fields?.length
+        ? `${line}\n${describeFields(field.fields, depth + 1)}`
+        : line;
+    })
+    .join('\n');
+}
+
+/**
+ * Builds the extraction prompt for a user-defined schema.
+ */
+export function buildSchemaPrompt(schema: UserSchema, ocrThreshold: number) {
+  const fieldLines = describeFields(schema.fields);
+
+  return `You are an Agentic Document Extraction system. Extract ONLY the fields listed below from the uploaded document ("${schema.name}") and return them with precise visual traceability.
+
+**Fields to extract:**
+${fieldLines}
+
+**Instructions:**
+1.  For image-based documents, only consider text recognized with a confidence level of ${ocrThreshold}% or higher.
+2.  For every top-level field, return its \`value\`, the \`page\` number it was found on (starting from 1) and a tight, normalized {left, top, right, bottom} \`bounding_box\` around the value on that page. The origin (0,0) is the top-left corner of the page.
+3.  For object fields, the \`value\` is an object with the listed child fields. For array fields, the \`value\` is a list with one object per item (e.g. one per table row or line item), and the \`bounding_box\` must enclose all items.
+4.  Convert values to the requested type. Dates MUST be formatted as YYYY-MM-DD.
+5.  If an optional field does not appear in the document, return null for it. Never invent values.
+6.  For every top-level field, give a \`confidence\` between 0.0 and 1.0 for how sure you are of its value and box. Use low scores for faint, blurry or handwritten text.
+7.  If a top-level value identifies a person, list the kinds of personal data in it as \`pii\`: 'name', 'date_of_birth', 'ssn', 'account_number', 'address' or 'phone'.
+
+The output must be a single, valid JSON object that strictly adheres to the provided schema, with no additional text or explanations.`;
+}
+
+/**
+ * Maps a keyed user-schema result onto the generic element list so the
+ * preview overlay, editor and exports can work with it unchanged. Object
+ * fields become field groups and array fields become tables.
+ */
+export function userResultToElements(
+  schema: UserSchema,
+  result: UserSchemaResult,
+): any[] {
+  const elements: any[] = [];
+  schema.fields.forEach((field) => {
+    const key = toFieldKey(field.name);
+    const entry = key ? result[key] : null;
+    if (!entry || entry.value === null || entry.value === undefined) return;
+
+    const element: any = {
+      type: 'field',
+      label: key,
+      schema_key: key,
+      page: entry.page,
+      bounding_box: entry.bounding_box,
+    };
+    if (entry.confidence !== undefined) element.confidence = entry.confidence;
+    if (entry.pii !== undefined) element.pii = entry.pii;
+    const childKeys = (field.fields || [])
+      .map((child) => toFieldKey(child.name))
+      .filter(Boolean);
+
+    if (field.type === 'object') {
+      element.type = 'field_group';
+      element.fields = childKeys.map((childKey) => ({
+        label: childKey,
+        schema_key: childKey,
+        value: formatValue(entry.value[childKey]),
+      }));
+    } else if (field.type === 'array') {
+      element.type = 'table';
+      element.table_data = {
+        headers: childKeys,
+        rows: (Array.isArray(entry.value) ? entry.value : []).map((item) =>
+          childKeys.map((childKey) => formatValue(item?.[childKey])),
+        ),
+      };
+    } else {
+      element.value = formatValue(entry.value);
+    }
+    elements.push(element);
+  });
+  return elements;
+}
+
+/**
+ * The key of the schema field an element, or a field of a group, holds.
+ * Results saved before keys were kept fall back to the label.
+ */
+export function getSchemaKey(item: { label?: string; schema_key?: string }) {
+  return item.schema_key ?? item.label;
+}
+
+/**
+ * The index of the element holding a schema field: the one extracted under
+ * its key or, once merged, the group holding it as a field. -1 if none does.
+ */
+export function findSchemaElementIndex(
+  elements: ExtractedElement[],
+  key: string,
+) {
+  const index = elements.findIndex((el) => getSchemaKey(el) === key);
+  if (index !== -1) return index;
+  return elements.findIndex(
+    (el) =>
+      el.type === 'field_group' &&
+      el.schema_key === undefined &&
+      el.fields.some((field) => field.schema_key === key),
+  );
+}
+
+/**
+ * Rebuilds the keyed result from (possibly edited) elements, so the JSON tab
+ * always reflects manual corrections.
+ */
+export function elementsToUserResult(
+  schema: UserSchema,
+  elements: ExtractedElement[],
+): UserSchemaResult {
+  const result: UserSchemaResult = {};
+  schema.fields.forEach((field) => {
+    const key = toFieldKey(field.name);
+    if (!key) return;
+    const element = elements[findSchemaElementIndex(elements, key)];
+    if (!element) {
+      result[key] = null;
+      return;
+    }
+    // A field merged into a group keeps its own value, score and tags.
+    const merged =
+      element.type === 'field_group' && getSchemaKey(element) !== key
+        ? element.fields.find((entry) => entry.schema_key === key)
+        : null;
+    const source = merged || element;
+    result[key] = {
+      value: merged
+        ? coerceValue(merged.value, field)
+        : elementToValue(field, element),
+      page: element.page,
+      bounding_box: element.bounding_box,
+      ...(source.confidence !== undefined
+        ? { confidence: source.confidence }
+        : {}),
+      ...(source.pii ? { pii: source.pii } : {}),
+    };
+  });
+  return result;
+}
+
+function elementToValue(field: SchemaField, element: ExtractedElement) {
+  const children = field.fields || [];
+  if (field.type === 'object') {
+    const value: Record<string, any> = {};
+    children.forEach((child) => {
+      const childKey = toFieldKey(child.name);
+      const fields = element.type === 'field_group' ? element.fields : [];
+      const entry = fields.find((f) => getSchemaKey(f) === childKey);
+      value[childKey] = entry ? coerceValue(entry.value, child) : null;
+    });
+    return value;
+  }
+  if (field.type === 'array') {
+    const tableData = element.type === 'table' ? element.table_data : null;
+    const headers = tableData?.headers || [];
+    return (tableData?.rows || []).map((row) => {
+      const item: Record<string, any> = {};
+      children.forEach((child) => {
+        const childKey = toFieldKey(child.name);
+        const column = headers.indexOf(childKey);
+        item[childKey] = column === -1 ? null : coerceValue(row[column], child);
+      });
+      return item;
+    });
+  }
+  return coerceValue(getElementValue(element), field);
+}
+
+function formatValue(value: any): string {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function coerceValue(value: string, field: SchemaField) {
+  if (value === undefined || value === null || value === '') return null;
+  switch (field.type) {
+    case 'number':
+    case 'integer': {
+      const num = Number(value);
+      return isNaN(num) ? value : num;
+    }
+    case 'boolean':
+      return value === 'true';
+    case 'object':
+    case 'array':
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value;
+      }
+    default:
+      return value;
+  }
+}
+
+// --- Schema Proposals (Prompt to Schema / Smart Suggestion) ---
+
+function buildProposalFieldSchema(depth: number): Schema {
+  const properties: Record<string, Schema> = {
+    name: {
+      type: Type.STRING,
+      description: 'A short snake_case field name, e.g. invoice_number.',
+    },
+    type: {
+      type: Type.STRING,
+      enum: SCHEMA_FIELD_TYPES,
+      description:
+        "The value type. Use 'object' for a group of related fields and 'array' for repeated items such as line items or table rows.",
+    },
+    description: {
+      type: Type.STRING,
+      description: 'What the field contains and where to find it.',
+    },
+    required: { type: Type.BOOLEAN },
+  };
+  if (depth < MAX_SCHEMA_DEPTH) {
+    properties.fields = {
+      type: Type.ARRAY,
+      description:
+        "Child fields. Only present if type is 'object' or 'array' (for arrays, the fields of each item).",
+      items: buildProposalFieldSchema(depth + 1),
+    };
+  }
+  return {
+    type: Type.OBJECT,
+    properties,
+    required: ['name', 'type', 'description', 'required'],
+  };
+}
+
+/**
+ * The response schema used when asking the model to propose a user schema.
+ * Gemini schemas cannot be recursive, so nesting is bounded by MAX_SCHEMA_DEPTH.
+ */
+export const SCHEMA_PROPOSAL_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    name: {
+      type: Type.STRING,
+      description: 'A short name for the schema, e.g. "Invoice".',
+    },
+    fields: {
+      type: Type.ARRAY,
+      items: buildProposalFieldSchema(1),
+    },
+  },
+  required: ['name', 'fields'],
+};
+
+export function buildPromptToSchemaPrompt(description: string) {
+  return `You design extraction schemas for a document extraction system. Propose a schema for the following request:
+
+"${description}"
+
+**Rules:**
+-   Use concise snake_case field names.
+-   Use 'object' for groups of related fields (e.g. a vendor with name and address) and 'array' for repeated items (e.g. line items), with their child fields in 'fields'.
+-   Use 'date' for dates, 'number' for amounts and 'integer' for counts.
+-   Mark a field as required only if it is essential to the request.`;
+}
+
+export const SMART_SUGGESTION_PROMPT = `You design extraction schemas for a document extraction system. Identify the type of the attached document (e.g. invoice, insurance claim, medical intake form) and propose a schema that captures the information a business would need from documents of this type.
+
+**Rules:**
+-   Base the fields on what this document type typically contains, using the attached document as the example.
+-   Use concise snake_case field names.
+-   Use 'object' for groups of related fields and 'array' for repeated items such as line items or table rows, with their child fields in 'fields'.
+-   Use 'date' for dates, 'number' for amounts and 'integer' for counts.
+-   Name the schema after the document type.`;
+
+/**
+ * Turns a raw model proposal into a well-formed user schema, dropping fields
+ * without a usable name and unknown types.
+ */
+export function proposalToUserSchema(proposal: any): UserSchema {
+  const toField = (raw: any, depth: number): SchemaField | null => {
+    if (!raw || !toFieldKey(String(raw.name || ''))) return null;
+    const type: SchemaFieldType = SCHEMA_FIELD_TYPES.includes(raw.type)
+      ? raw.type
+      : 'string';
+    const field: SchemaField = {
+      name: toFieldKey(String(raw.name)),
+      type,
+      description: String(raw.description || ''),
+      required: Boolean(raw.required),
+    };
+    if (isContainerType(type)) {
+      field.fields =
+        depth < MAX_SCHEMA_DEPTH
+          ? (raw.fields || [])
+              .map((child: any) => toField(child, depth + 1))
+              .filter(Boolean)
+          : [];
+      // A container without children cannot hold a value; fall back to text.
+      if (field.fields.length === 0) {
+        field.type = 'string';
+        delete field.fields;
+      }
+    }
+    return field;
+  };
+
+  const schema = createUserSchema(
+    String(proposal?.name || '').trim() || 'Suggested schema',
+  );
+  schema.fields = (proposal?.fields || [])
+    .map((raw: any) => toField(raw, 1))
+    .filter(Boolean);
+  return schema;
+}
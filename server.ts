@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { readFile } from 'node:fs/promises';
+import { createServer } from 'node:http';
+import { parseArgs } from 'node:util';
+import { loadEnv } from 'vite';
+import {
+  GEMINI_MODELS,
+  createFixtureProvider,
+  createGeminiProvider,
+} from './providers';
+import { createProxyHandler } from './proxy';
+
+// --- Extraction Server ---
+// Holds the Gemini API key and forwards the app's model requests, so the key
+// never reaches the browser. See "Extraction server" in the README.
+
+const USAGE = `Usage:
+  npm run server -- [options]
+
+Options:
+  --port <n>              Port to listen on (default: PROXY_PORT or 3001)
+  --host <address>        Address to listen on (default: 127.0.0.1)
+  --stub                  Answer with recorded responses instead of Gemini
+  --fixtures <file>       Recorded responses for --stub
+  --max-request-mb <n>    Largest request accepted, in MB (default: 20)
+  --rate-limit <n>        Requests per minute per client (default: 30)
+  --trust-proxy           Identify clients by X-Forwarded-For, as set by the
+                          dev server or a reverse proxy in front`;
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      port: { type: 'string' },
+      host: { type: 'string' },
+      stub: { type: 'boolean' },
+      fixtures: { type: 'string' },
+      'max-request-mb': { type: 'string' },
+      'rate-limit': { type: 'string' },
+      'trust-proxy': { type: 'boolean' },
+      help: { type: 'boolean' },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  // The key is read like the app used to: from .env.local or the environment.
+  const env = loadEnv('development', process.cwd(), '');
+  let provider;
+  if (values.stub) {
+    provider = createFixtureProvider(
+      JSON.parse(
+        await readFile(
+          values.fixtures || 'fixtures/recorded-responses.json',
+          'utf8',
+        ),
+      ),
+    );
+  } else if (env.GEMINI_API_KEY) {
+    provider = createGeminiProvider(env.GEMINI_API_KEY);
+  } else {
+    throw new Error(
+      'Set GEMINI_API_KEY in .env.local, or pass --stub to serve recorded responses.',
+    );
+  }
+
+  const port = parseInt(values.port || env.PROXY_PORT || '3001', 10);
+  const host = values.host || '127.0.0.1';
+  const handler = createProxyHandler({
+    provider,
+    models: GEMINI_MODELS,
+    maxRequestBytes:
+      parseFloat(values['max-request-mb'] || '20') * 1024 * 1024,
+    rateLimit: parseInt(values['rate-limit'] || '30', 10),
+    rateWindowMs: 60_000,
+    trustProxy: Boolean(values['trust-proxy']),
+    log: (line) => console.log(line),
+  });
+
+  createServer(handler).listen(port, host, () => {
+    console.log(
+      `Extraction server (${provider.name}) listening on http://${host}:${port}`,
+    );
+  });
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,191 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { BatchDocument, DocumentStatus, isInProgress } from './batch';
+import { ExtractedElement } from './elements';
+import { DocumentFeedback, createDocumentFeedback } from './feedback';
+import { EditHistory, createEditHistory } from './history';
+import { UserSchema } from './schemas';
+import { ElementIssue, getElementIssues, setElementIssues } from './validation';
+
+// --- Persisted Sessions (IndexedDB) ---
+
+const DB_NAME = 'ade-sessions';
+const DB_VERSION = 1;
+// Files are stored separately so that saving an edit does not rewrite them.
+const FILES_STORE = 'files';
+const DOCUMENTS_STORE = 'documents';
+const SETTINGS_STORE = 'settings';
+const SETTINGS_KEY = 'session';
+
+// The oldest documents beyond this are dropped from the recent list.
+export const MAX_STORED_DOCUMENTS = 30;
+
+/**
+ * A batch document as saved to IndexedDB. The elements, their history and
+ * feedback are stored in one record, so elements shared between them stay shared.
+ */
+export interface StoredDocument {
+  id: string;
+  fileName: string;
+  fileType: string;
+  status: DocumentStatus;
+  error: string | null;
+  pageDimensions: { width: number; height: number }[];
+  extractedData: ExtractedElement[];
+  // Validation issues of each element in extractedData, by index
+  issues: ElementIssue[][];
+  history: EditHistory;
+  // Stored with the elements, since ratings refer to them
+  feedback: DocumentFeedback;
+  warnings: string[];
+  resultSchema: UserSchema | null;
+  updatedAt: number;
+}
+
+export interface SessionSettings {
+  ocrThreshold: number;
+  activeSchemaId: string;
+  // The documents open when the page was left, and the active one
+  openDocumentIds: string[];
+  activeDocumentId: string | null;
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase() {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(FILES_STORE);
+        db.createObjectStore(DOCUMENTS_STORE, { keyPath: 'id' });
+        db.createObjectStore(SETTINGS_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return databasePromise;
+}
+
+/**
+ * Runs one request against a store and resolves with its result once the
+ * transaction has committed.
+ */
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = run(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export async function saveDocumentFile(doc: BatchDocument) {
+  await withStore(FILES_STORE, 'readwrite', (store) =>
+    store.put(doc.file, doc.id),
+  );
+}
+
+export async function saveDocument(doc: BatchDocument) {
+  const stored: StoredDocument = {
+    id: doc.id,
+    fileName: doc.file.name,
+    fileType: doc.file.type,
+    // An extraction cut short by a reload has to be started again.
+    status: isInProgress(doc.status) ? 'idle' : doc.status,
+    error: doc.error,
+    pageDimensions: doc.pageDimensions,
+    extractedData: doc.extractedData,
+    issues: doc.extractedData.map((element) => getElementIssues(element)),
+    history: doc.history,
+    feedback: doc.feedback,
+    warnings: doc.warnings,
+    resultSchema: doc.resultSchema,
+    updatedAt: Date.now(),
+  };
+  await withStore(DOCUMENTS_STORE, 'readwrite', (store) => store.put(stored));
+}
+
+// All stored documents, most recently updated first.
+export async function loadStoredDocuments() {
+  const stored = await withStore<StoredDocument[]>(
+    DOCUMENTS_STORE,
+    'readonly',
+    (store) => store.getAll(),
+  );
+  return stored.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Rebuilds a batch document from its stored record and file. Returns null if
+ * the file is missing.
+ */
+export async function restoreDocument(
+  stored: StoredDocument,
+): Promise<BatchDocument | null> {
+  const file = await withStore<File>(FILES_STORE, 'readonly', (store) =>
+    store.get(stored.id),
+  );
+  if (!file) return null;
+
+  stored.extractedData.forEach((element, index) =>
+    setElementIssues(element, stored.issues?.[index] || []),
+  );
+  return {
+    id: stored.id,
+    file,
+    status: stored.status,
+    attempts: 0,
+    error: stored.error,
+    pageDimensions: stored.pageDimensions,
+    extractedData: stored.extractedData,
+    history: stored.history || createEditHistory(),
+    feedback: stored.feedback || createDocumentFeedback(),
+    warnings: stored.warnings || [],
+    resultSchema: stored.resultSchema,
+    progress: null,
+  };
+}
+
+export async function deleteStoredDocument(id: string) {
+  await withStore(DOCUMENTS_STORE, 'readwrite', (store) => store.delete(id));
+  await withStore(FILES_STORE, 'readwrite', (store) => store.delete(id));
+}
+
+/**
+ * Drops the least recently updated documents beyond MAX_STORED_DOCUMENTS,
+ * never touching the ones in `keepIds`.
+ */
+export async function pruneStoredDocuments(keepIds: string[]) {
+  const stored = await loadStoredDocuments();
+  const excess = stored
+    .slice(MAX_STORED_DOCUMENTS)
+    .filter((doc) => !keepIds.includes(doc.id));
+  for (const doc of excess) {
+    await deleteStoredDocument(doc.id);
+  }
+}
+
+export async function loadSettings() {
+  return withStore<SessionSettings | undefined>(
+    SETTINGS_STORE,
+    'readonly',
+    (store) => store.get(SETTINGS_KEY),
+  );
+}
+
+export async function saveSettings(settings: SessionSettings) {
+  await withStore(SETTINGS_STORE, 'readwrite', (store) =>
+    store.put(settings, SETTINGS_KEY),
+  );
+}
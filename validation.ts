@@ -0,0 +1,487 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {
+  BoundingBox,
+  ElementType,
+  ExtractedElement,
+  PII_CATEGORIES,
+  PiiCategory,
+  isElementType,
+} from './elements';
+
+// --- Validation & Repair of Model Output ---
+
+// Types the model sometimes returns instead of one of ELEMENT_TYPES.
+const TYPE_ALIASES: Record<string, ElementType> = {
+  key_value: 'field',
+  'key-value': 'field',
+  text: 'paragraph',
+  heading: 'paragraph',
+  title: 'paragraph',
+  group: 'field_group',
+  fieldgroup: 'field_group',
+  image: 'figure',
+  picture: 'figure',
+  chart: 'figure',
+  signature: 'attestation',
+  header: 'marginalia',
+  footer: 'marginalia',
+  page_number: 'marginalia',
+  check_box: 'checkbox',
+};
+
+export interface ElementIssue {
+  // 'repaired' issues were fixed automatically; 'invalid' ones need review.
+  severity: 'repaired' | 'invalid';
+  message: string;
+}
+
+export interface ValidationResult {
+  elements: ExtractedElement[];
+  // Document-level problems, e.g. items that had to be dropped
+  warnings: string[];
+}
+
+// Issues are kept off the elements themselves so they never leak into the
+// JSON view or exports.
+const elementIssues = new WeakMap<object, ElementIssue[]>();
+
+export function getElementIssues(element: object): ElementIssue[] {
+  return (element && elementIssues.get(element)) || [];
+}
+
+export function setElementIssues(element: object, issues: ElementIssue[]) {
+  if (issues.length > 0) {
+    elementIssues.set(element, issues);
+  } else {
+    elementIssues.delete(element);
+  }
+}
+
+/**
+ * Validates raw `extracted_elements` from the model. Everything that can be
+ * repaired is fixed in place (and recorded as a 'repaired' issue); what cannot
+ * is flagged as 'invalid' so the UI can point reviewers at it. The returned
+ * elements conform to ExtractedElement, except that an element flagged for a
+ * missing page has none.
+ */
+export function validateElements(
+  raw: unknown,
+  options: { pageCount: number },
+): ValidationResult {
+  const warnings: string[] = [];
+  if (!Array.isArray(raw)) {
+    if (raw !== undefined && raw !== null) {
+      warnings.push(
+        "The model returned 'extracted_elements' in an unexpected format; it was ignored.",
+      );
+    }
+    return { elements: [], warnings };
+  }
+
+  const elements: ExtractedElement[] = [];
+  raw.forEach((item, index) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      warnings.push(`Element ${index + 1} was not an object and was dropped.`);
+      return;
+    }
+    const issues: ElementIssue[] = [];
+    validateElement(item, options.pageCount, issues);
+    setElementIssues(item, issues);
+    elements.push(item);
+  });
+  return { elements, warnings };
+}
+
+function validateElement(element: any, pageCount: number, issues: ElementIssue[]) {
+  const repaired = (message: string) =>
+    issues.push({ severity: 'repaired', message });
+  const invalid = (message: string) =>
+    issues.push({ severity: 'invalid', message });
+
+  // --- Type ---
+  const rawType = String(element.type ?? '')
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, '_');
+  if (isElementType(rawType)) {
+    if (rawType !== element.type) repaired(`Type normalized to '${rawType}'.`);
+    element.type = rawType;
+  } else if (TYPE_ALIASES[rawType]) {
+    repaired(`Type '${element.type}' mapped to '${TYPE_ALIASES[rawType]}'.`);
+    element.type = TYPE_ALIASES[rawType];
+  } else {
+    invalid(
+      element.type
+        ? `Unknown type '${element.type}'; shown as a field.`
+        : 'Missing type; shown as a field.',
+    );
+    element.type = 'field';
+  }
+
+  // --- Text ---
+  ['label', 'value'].forEach((key) => {
+    const value = element[key];
+    if (value !== undefined && value !== null && typeof value !== 'string') {
+      element[key] =
+        typeof value === 'object' ? JSON.stringify(value) : String(value);
+      repaired(`The ${key} was converted to text.`);
+    }
+  });
+
+  // --- Page ---
+  const page = Number(element.page);
+  if (element.page === undefined || element.page === null || isNaN(page)) {
+    if (pageCount === 1) {
+      element.page = 1;
+      repaired('Missing page number set to 1.');
+    } else {
+      invalid('Missing page number; the element cannot be located.');
+    }
+  } else {
+    const clamped = Math.min(Math.max(Math.round(page), 1), pageCount);
+    if (clamped !== page) {
+      (page < 1 || page > pageCount ? invalid : repaired)(
+        page > pageCount
+          ? `Page ${page} exceeds the page count (${pageCount}); moved to page ${clamped}.`
+          : `Page ${element.page} corrected to ${clamped}.`,
+      );
+    }
+    element.page = clamped;
+  }
+
+  // --- Boxes ---
+  if (element.bounding_box === undefined || element.bounding_box === null) {
+    invalid('Missing bounding box; the element cannot be highlighted.');
+  } else {
+    const box = repairBox(element.bounding_box, repaired);
+    if (box) {
+      element.bounding_box = box;
+    } else {
+      invalid('Bounding box is malformed and was removed.');
+      delete element.bounding_box;
+    }
+  }
+
+  if (element.line_boxes !== undefined) {
+    if (!Array.isArray(element.line_boxes)) {
+      repaired('Malformed line boxes were removed.');
+      delete element.line_boxes;
+    } else {
+      const lineBoxes = element.line_boxes
+        .map((box: any) => repairBox(box, repaired))
+        .filter(Boolean);
+      if (lineBoxes.length !== element.line_boxes.length) {
+        repaired(
+          `${element.line_boxes.length - lineBoxes.length} malformed line box(es) removed.`,
+        );
+      }
+      element.line_boxes = lineBoxes;
+    }
+  }
+
+  // --- Confidence ---
+  if (element.confidence !== undefined) {
+    const confidence = repairConfidence(element.confidence);
+    if (confidence === null) {
+      repaired('Malformed confidence removed.');
+      delete element.confidence;
+    } else {
+      if (confidence !== element.confidence) {
+        repaired(`Confidence ${element.confidence} read as ${confidence}.`);
+      }
+      element.confidence = confidence;
+    }
+  }
+
+  // --- PII tags ---
+  if (element.pii !== undefined) {
+    const pii = repairPii(element.pii);
+    if (!pii || pii.length !== [].concat(element.pii).length) {
+      repaired('Unknown PII tags removed.');
+    }
+    if (pii?.length) {
+      element.pii = pii;
+    } else {
+      delete element.pii;
+    }
+  }
+
+  // --- Type-specific data ---
+  if (element.type === 'table') {
+    validateTable(element, repaired, invalid);
+  } else if (element.type === 'field_group') {
+    if (!Array.isArray(element.fields)) {
+      invalid('Field group has no fields.');
+      element.fields = [];
+    } else {
+      const fields = element.fields.filter(
+        (field: any) => field && typeof field === 'object',
+      );
+      if (fields.length !== element.fields.length) {
+        repaired('Malformed fields were removed from the group.');
+      }
+      let malformedScores = 0;
+      let malformedTags = 0;
+      element.fields = fields.map((field: any) => {
+        const repairedField = {
+          ...field,
+          label: toText(field.label),
+          value: toText(field.value),
+        };
+        if (field.confidence !== undefined) {
+          const confidence = repairConfidence(field.confidence);
+          if (confidence === null) {
+            malformedScores++;
+            delete repairedField.confidence;
+          } else {
+            repairedField.confidence = confidence;
+          }
+        }
+        if (field.pii !== undefined) {
+          const pii = repairPii(field.pii);
+          if (!pii || pii.length !== [].concat(field.pii).length) {
+            malformedTags++;
+          }
+          if (pii?.length) {
+            repairedField.pii = pii;
+          } else {
+            delete repairedField.pii;
+          }
+        }
+        return repairedField;
+      });
+      if (malformedScores > 0) {
+        repaired(`${malformedScores} malformed field confidence(s) removed.`);
+      }
+      if (malformedTags > 0) {
+        repaired(`Unknown PII tags removed from ${malformedTags} field(s).`);
+      }
+    }
+  }
+}
+
+// Text of a cell or group field; missing and null values are empty.
+function toText(value: any) {
+  return value === undefined || value === null ? '' : String(value);
+}
+
+function validateTable(
+  element: any,
+  repaired: (message: string) => void,
+  invalid: (message: string) => void,
+) {
+  const tableData = element.table_data;
+  if (!tableData || typeof tableData !== 'object') {
+    invalid('Table has no table data.');
+    element.table_data = { headers: [], rows: [] };
+    return;
+  }
+
+  const rows: string[][] = (Array.isArray(tableData.rows) ? tableData.rows : [])
+    .filter((row: any) => Array.isArray(row))
+    .map((row: any[]) => row.map(toText));
+  if (!Array.isArray(tableData.rows) || rows.length !== tableData.rows.length) {
+    repaired('Malformed table rows were removed.');
+  }
+
+  let headers: string[] = Array.isArray(tableData.headers)
+    ? tableData.headers.map(toText)
+    : [];
+  const widest = Math.max(0, ...rows.map((row) => row.length));
+  if (headers.length === 0 && widest > 0) {
+    headers = Array.from({ length: widest }, (_, i) => `Column ${i + 1}`);
+    repaired('Missing table headers were generated.');
+  }
+
+  let padded = 0;
+  let merged = 0;
+  const fixedRows = rows.map((row) => {
+    if (row.length < headers.length) {
+      padded++;
+      return [...row, ...Array(headers.length - row.length).fill('')];
+    }
+    if (row.length > headers.length && headers.length > 0) {
+      merged++;
+      // Keep the overflow visible by folding it into the last column.
+      return [
+        ...row.slice(0, headers.length - 1),
+        row.slice(headers.length - 1).join(' '),
+      ];
+    }
+    return row;
+  });
+  if (padded > 0) {
+    repaired(`${padded} table row(s) had missing cells and were padded.`);
+  }
+  if (merged > 0) {
+    invalid(
+      `${merged} table row(s) had more cells than headers; the extra cells were merged into the last column.`,
+    );
+  }
+
+  element.table_data = { ...tableData, headers, rows: fixedRows };
+}
+
+// Scores above this are read as percentages. Scores between 1 and this are
+// taken to overshoot the 0 to 1 scale slightly, and are clamped to 1.
+const PERCENTAGE_CONFIDENCE_CUTOFF = 1.5;
+
+/**
+ * Reads a confidence score as a number from 0 to 1. Percentages (85, "85%")
+ * are rescaled. Returns null if the score cannot be used.
+ */
+export function repairConfidence(raw: unknown): number | null {
+  let score: number;
+  let isPercentage = false;
+  if (typeof raw === 'number') {
+    score = raw;
+  } else if (typeof raw === 'string' && raw.trim()) {
+    isPercentage = raw.trim().endsWith('%');
+    score = Number(raw.trim().replace(/%$/, ''));
+  } else {
+    return null;
+  }
+  if (!Number.isFinite(score) || score < 0 || score > 100) return null;
+  if (isPercentage || score > PERCENTAGE_CONFIDENCE_CUTOFF) return score / 100;
+  return Math.min(score, 1);
+}
+
+// PII tags the model sometimes uses instead of one of PII_CATEGORIES.
+const PII_ALIASES: Record<string, PiiCategory> = {
+  dob: 'date_of_birth',
+  birth_date: 'date_of_birth',
+  social_security_number: 'ssn',
+  account: 'account_number',
+  phone_number: 'phone',
+  telephone: 'phone',
+  person: 'name',
+};
+
+/**
+ * Reads PII tags as a list of PII_CATEGORIES, normalizing case and spelling.
+ * Unknown tags are dropped; returns null if the tags are not a list or a
+ * single tag.
+ */
+export function repairPii(raw: unknown): PiiCategory[] | null {
+  const tags = typeof raw === 'string' ? [raw] : raw;
+  if (!Array.isArray(tags)) return null;
+  const categories = new Set<PiiCategory>();
+  tags.forEach((tag) => {
+    if (typeof tag !== 'string') return;
+    const key = tag
+      .trim()
+      .toLowerCase()
+      .replace(/[\s-]+/g, '_');
+    const category = PII_ALIASES[key] || key;
+    if (PII_CATEGORIES.includes(category as PiiCategory)) {
+      categories.add(category as PiiCategory);
+    }
+  });
+  return [...categories];
+}
+
+/**
+ * Repairs a {left, top, right, bottom} box: converts strings to numbers,
+ * rescales 0..100 / 0..1000 coordinates, swaps inverted edges and clamps to
+ * the page. Returns null if the box cannot be used at all.
+ */
+export function repairBox(
+  box: any,
+  repaired: (message: string) => void = () => {},
+): BoundingBox | null {
+  if (!box || typeof box !== 'object') return null;
+
+  const keys = ['left', 'top', 'right', 'bottom'] as const;
+  const values = keys.map((key) => Number(box[key]));
+  if (values.some((value) => !isFinite(value))) return null;
+  let [left, top, right, bottom] = values;
+
+  const max = Math.max(left, top, right, bottom);
+  // Small overshoots past 1.0 are clamped below rather than rescaled.
+  if (max > 1.5) {
+    // Models sometimes use percentage or 0..1000 coordinates.
+    const scale = max > 100 ? 1000 : 100;
+    [left, top, right, bottom] = [left, top, right, bottom].map(
+      (value) => value / scale,
+    );
+    repaired(`Box coordinates rescaled from a 0-${scale} range.`);
+  }
+  if (right < left) {
+    [left, right] = [right, left];
+    repaired('Box left and right edges were swapped.');
+  }
+  if (bottom < top) {
+    [top, bottom] = [bottom, top];
+    repaired('Box top and bottom edges were swapped.');
+  }
+
+  const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+  const clamped = [left, top, right, bottom].map(clamp);
+  if (clamped.some((value, i) => value !== [left, top, right, bottom][i])) {
+    repaired('Box coordinates outside the page were clamped.');
+  }
+  [left, top, right, bottom] = clamped;
+
+  if (right - left <= 0 || bottom - top <= 0) return null;
+  return { left, top, right, bottom };
+}
+
+// --- Partial / Truncated JSON ---
+
+/**
+ * Parses model output, salvaging truncated JSON (e.g. when the output limit
+ * is hit mid-array) by cutting it after the last complete object and closing
+ * the open brackets. Throws if nothing can be salvaged.
+ */
+export function parseModelJson(text: string): {
+  value: any;
+  truncated: boolean;
+} {
+  try {
+    return { value: JSON.parse(text), truncated: false };
+  } catch (error) {
+    const salvaged = salvageJson(text);
+    if (salvaged === undefined) throw error;
+    return { value: salvaged, truncated: true };
+  }
+}
+
+function salvageJson(text: string) {
+  // Record the open brackets after every '}' that closes an object.
+  const candidates: { end: number; closers: string }[] = [];
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === '{') stack.push('}');
+    else if (char === '[') stack.push(']');
+    else if (char === '}' || char === ']') {
+      stack.pop();
+      if (char === '}' && stack.length > 0) {
+        candidates.push({ end: i + 1, closers: [...stack].reverse().join('') });
+      }
+    }
+  }
+
+  // Try the longest prefixes first; give up after a bounded number of tries.
+  for (const { end, closers } of candidates.reverse().slice(0, 50)) {
+    try {
+      return JSON.parse(text.slice(0, end) + closers);
+    } catch {
+      // Try the next shorter prefix.
+    }
+  }
+  return undefined;
+}
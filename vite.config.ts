@@ -4,16 +4,34 @@ import { defineConfig, loadEnv } from 'vite';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Model requests go to the extraction server (server.ts), which holds the
+    // API key; the key is never part of the bundle.
+    // X-Forwarded-For is set to the browser's address, replacing any the
+    // browser sent, so that a server started with --trust-proxy rate-limits
+    // each browser rather than counting every request as the dev server's.
+    const serverUrl = `http://127.0.0.1:${env.PROXY_PORT || 3001}`;
+    const target = {
+      target: serverUrl,
+      configure: (proxy) => {
+        proxy.on('proxyReq', (proxyReq, request) => {
+          proxyReq.setHeader(
+            'X-Forwarded-For',
+            request.socket.remoteAddress || 'unknown',
+          );
+        });
+      },
+    };
+    const proxy = { '/extract': target, '/status': target };
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy,
       },
-      plugins: [],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      preview: {
+        proxy,
       },
+      plugins: [],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
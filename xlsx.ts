@@ -0,0 +1,285 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { BoundingBox, ExtractedElement, getElementValue } from './elements';
+import { createZip, escapeXml } from './zip';
+
+// --- Excel Workbook Export ---
+
+export type CellValue = string | number | null;
+
+export interface Sheet {
+  name: string;
+  rows: CellValue[][];
+}
+
+// Excel's limits on sheet names.
+const MAX_SHEET_NAME_LENGTH = 31;
+const INVALID_SHEET_NAME_CHARS = /[\\/?*:[\]]/g;
+
+// Widest column width, in characters, when sizing columns to their content.
+const MAX_COLUMN_WIDTH = 60;
+
+// 0 -> A, 25 -> Z, 26 -> AA, ...
+function columnName(index: number): string {
+  const letter = String.fromCharCode(65 + (index % 26));
+  return index < 26 ? letter : columnName(Math.floor(index / 26) - 1) + letter;
+}
+
+/**
+ * Makes sheet names valid and unique: Excel rejects some characters, names
+ * over 31 characters and duplicates that differ only in case.
+ */
+function uniqueSheetNames(names: string[]) {
+  const used = new Set<string>();
+  return names.map((name) => {
+    const base =
+      name
+        .replace(INVALID_SHEET_NAME_CHARS, ' ')
+        .replace(/^'+|'+$/g, '')
+        .trim() || 'Sheet';
+    let candidate = base.slice(0, MAX_SHEET_NAME_LENGTH);
+    for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+      const suffix = ` (${n})`;
+      candidate = base.slice(0, MAX_SHEET_NAME_LENGTH - suffix.length) + suffix;
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+  });
+}
+
+function cellXml(value: CellValue, ref: string, style: number) {
+  const styleAttr = style ? ` s="${style}"` : '';
+  if (value === null || value === '') return '';
+  if (typeof value === 'number') {
+    return `<c r="${ref}"${styleAttr}><v>${value}</v></c>`;
+  }
+  return `<c r="${ref}"${styleAttr} t="inlineStr"><is><t xml:space="preserve">${escapeXml(
+    value,
+  )}</t></is></c>`;
+}
+
+// The first row of every sheet is a bold header row (style 1).
+function sheetXml(sheet: Sheet) {
+  const columnCount = Math.max(0, ...sheet.rows.map((row) => row.length));
+  const widths = Array.from({ length: columnCount }, (_, column) =>
+    Math.min(
+      MAX_COLUMN_WIDTH,
+      Math.max(
+        8,
+        ...sheet.rows.map((row) => String(row[column] ?? '').length + 2),
+      ),
+    ),
+  );
+  const cols = widths.length
+    ? `<cols>${widths
+        .map(
+          (width, i) =>
+            `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>`,
+        )
+        .join('')}</cols>`
+    : '';
+  const rows = sheet.rows
+    .map(
+      (row, r) =>
+        `<row r="${r + 1}">${row
+          .map((value, c) =>
+            cellXml(value, `${columnName(c)}${r + 1}`, r === 0 ? 1 : 0),
+          )
+          .join('')}</row>`,
+    )
+    .join('');
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>${cols}<sheetData>${rows}</sheetData></worksheet>`;
+}
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border/></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs><cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles></styleSheet>`;
+
+/**
+ * Writes sheets as an .xlsx workbook. Strings are stored inline, so no
+ * shared string table is needed.
+ */
+export function createWorkbook(sheets: Sheet[]) {
+  const names = uniqueSheetNames(sheets.map((sheet) => sheet.name));
+  const sheetEntries = sheets.map((sheet, i) => ({
+    name: `xl/worksheets/sheet${i + 1}.xml`,
+    data: sheetXml(sheet),
+  }));
+
+  return createZip([
+    {
+      name: '[Content_Types].xml',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>${sheetEntries
+        .map(
+          (entry) =>
+            `<Override PartName="/${entry.name}" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`,
+        )
+        .join('')}</Types>`,
+    },
+    {
+      name: '_rels/.rels',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+    },
+    {
+      name: 'xl/workbook.xml',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>${names
+        .map(
+          (name, i) =>
+            `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`,
+        )
+        .join('')}</sheets></workbook>`,
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${sheetEntries
+        .map(
+          (_, i) =>
+            `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`,
+        )
+        .join(
+          '',
+        )}<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`,
+    },
+    { name: 'xl/styles.xml', data: STYLES_XML },
+    ...sheetEntries,
+  ]);
+}
+
+// --- Result Workbook ---
+
+/**
+ * Plain decimal numbers become numeric cells so they can be summed. Anything
+ * else (amounts with separators or currency, IDs with leading zeros, numbers
+ * too long to be exact) stays text.
+ */
+function toCellValue(text: string): CellValue {
+  const trimmed = text.trim();
+  if (/^-?(0|[1-9]\d{0,14})(\.\d+)?$/.test(trimmed)) {
+    return Number(trimmed);
+  }
+  return text;
+}
+
+function boxRow(
+  index: number,
+  element: ExtractedElement,
+  kind: string,
+  page: number,
+  box: BoundingBox,
+): CellValue[] {
+  return [
+    index + 1,
+    element.type,
+    element.label || '',
+    kind,
+    page,
+    box.left,
+    box.top,
+    box.right,
+    box.bottom,
+  ];
+}
+
+/**
+ * Lays extracted elements out as sheets: "Fields" with every non-table
+ * element (one row per group field), one sheet per table with its real
+ * headers and cells, and "Boxes" with the normalized coordinates of every
+ * box, keyed by the element's position in the results.
+ */
+export function elementsToSheets(elements: ExtractedElement[]): Sheet[] {
+  // Confidence stays empty for elements the model did not score.
+  const fields: CellValue[][] = [
+    ['type', 'group', 'label', 'value', 'page', 'confidence'],
+  ];
+  const tables: Sheet[] = [];
+  const boxes: CellValue[][] = [
+    [
+      'element',
+      'type',
+      'label',
+      'box',
+      'page',
+      'left',
+      'top',
+      'right',
+      'bottom',
+    ],
+  ];
+
+  elements.forEach((element, index) => {
+    switch (element.type) {
+      case 'field_group':
+        element.fields.forEach((field) => {
+          fields.push([
+            'field',
+            element.label || '',
+            field.label,
+            toCellValue(field.value),
+            element.page,
+            field.confidence ?? null,
+          ]);
+        });
+        break;
+      case 'table':
+        tables.push({
+          name: element.label || `Table ${tables.length + 1}`,
+          rows: [
+            element.table_data.headers,
+            ...element.table_data.rows.map((row) => row.map(toCellValue)),
+          ],
+        });
+        break;
+      default:
+        fields.push([
+          element.type,
+          '',
+          element.label || '',
+          toCellValue(getElementValue(element)),
+          element.page,
+          element.confidence ?? null,
+        ]);
+    }
+
+    if (element.bounding_box) {
+      boxes.push(
+        boxRow(
+          index,
+          element,
+          'bounding_box',
+          element.page,
+          element.bounding_box,
+        ),
+      );
+    }
+    element.line_boxes?.forEach((box, line) => {
+      boxes.push(boxRow(index, element, `line ${line + 1}`, element.page, box));
+    });
+    if (element.type === 'table') {
+      element.continuations?.forEach((continuation) => {
+        if (continuation.bounding_box) {
+          boxes.push(
+            boxRow(
+              index,
+              element,
+              'continuation',
+              continuation.page,
+              continuation.bounding_box,
+            ),
+          );
+        }
+      });
+    }
+  });
+
+  return [
+    { name: 'Fields', rows: fields },
+    ...tables,
+    { name: 'Boxes', rows: boxes },
+  ];
+}
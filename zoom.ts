@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// --- Preview Zoom ---
+// Zoom is the size of a page unit (a PDF point, an image pixel) in CSS
+// pixels, so 1 shows pages at their actual size.
+
+// A fixed zoom, or one that follows the preview's size.
+export type ZoomMode = 'custom' | 'fit-width' | 'fit-page';
+
+export const MIN_ZOOM = 0.25;
+export const MAX_ZOOM = 5;
+// Each zoom in or out button press, or wheel notch, multiplies zoom by this.
+export const ZOOM_STEP = 1.25;
+
+// PDF pages are never rendered above a size that would exhaust canvas memory.
+const MAX_RENDER_SCALE = 4;
+// Nor into canvases of more pixels than this: larger ones exceed the area
+// limit of some browsers (iOS Safari's is 4096 × 4096) and stay blank.
+const MAX_CANVAS_PIXELS = 4096 * 4096;
+
+export function clampZoom(zoom: number) {
+  return Math.min(Math.max(zoom, MIN_ZOOM), MAX_ZOOM);
+}
+
+/**
+ * The zoom at which the widest page fills `width`, or, for 'fit-page', at
+ * which the largest page also fits within `height`.
+ */
+export function getFitZoom(
+  pageDimensions: { width: number; height: number }[],
+  mode: 'fit-width' | 'fit-page',
+  width: number,
+  height: number,
+) {
+  const pageWidth = Math.max(...pageDimensions.map((page) => page.width));
+  const pageHeight = Math.max(...pageDimensions.map((page) => page.height));
+  const zoom =
+    mode === 'fit-width'
+      ? width / pageWidth
+      : Math.min(width / pageWidth, height / pageHeight);
+  return clampZoom(zoom);
+}
+
+/**
+ * The pdf.js scale to render pages at, so that they are sharp at `zoom` on
+ * a screen with `pixelRatio` device pixels per CSS pixel.
+ */
+export function getRenderScale(zoom: number, pixelRatio: number) {
+  return Math.min(zoom * pixelRatio, MAX_RENDER_SCALE);
+}
+
+/**
+ * `scale`, lowered if need be so that a page of `width` × `height` (at scale
+ * 1) renders into a canvas within MAX_CANVAS_PIXELS.
+ */
+export function capRenderScale(
+  scale: number,
+  { width, height }: { width: number; height: number },
+) {
+  return Math.min(scale, Math.sqrt(MAX_CANVAS_PIXELS / (width * height)));
+}
+
+/**
+ * The zoom change for a wheel event: one step per notch of a mouse wheel,
+ * and in proportion for the finer deltas of trackpads and pinch gestures.
+ */
+export function getWheelZoomFactor(deltaY: number, deltaMode: number) {
+  // Firefox reports mouse wheels in lines (deltaMode 1) rather than pixels.
+  const pixels = deltaMode === 1 ? deltaY * 33 : deltaY;
+  return Math.pow(ZOOM_STEP, -pixels / 100);
+}